@@ -0,0 +1,132 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parseSavedPlan } from "@/core/planFile";
+import { areSameSkills } from "@/core/syncCore";
+import { getLocalSkills, installSkills, removeSkills } from "@/service/skillsService";
+import {
+  createSummary,
+  describePlan,
+  finalizeWithFailures,
+  formatSyncSummary,
+  holdBackUnlessForced,
+  recordSuccessfulSync,
+  resolveRemoteState,
+  splitInstallCandidates,
+  SyncFailure,
+} from "@/commands/sync";
+import { CliError } from "@/utils/errors";
+import { emitOutput } from "@/utils/output";
+
+export type RunApplyOptions = {
+  // Reinstall skills even when they were edited since skillhub installed them.
+  force?: boolean;
+  json?: boolean;
+};
+
+function planDrift(message: string): never {
+  throw new CliError(
+    "PLAN_DRIFT",
+    `${message} Re-run \`skillhub sync <mode> --plan-out\` to create a fresh plan.`
+  );
+}
+
+export async function runApply(planPath: string, options: RunApplyOptions = {}) {
+  const asJson = options.json === true;
+
+  const resolvedPath = path.resolve(planPath);
+  let raw: string;
+  try {
+    raw = await fs.readFile(resolvedPath, "utf-8");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read plan file ${resolvedPath}: ${message}`);
+  }
+  const plan = parseSavedPlan(raw);
+
+  const nowIso = new Date().toISOString();
+  const { store, remoteId, remoteFound, remoteRevision } =
+    await resolveRemoteState();
+
+  if (store.url !== plan.remote) {
+    planDrift(
+      `The plan was made for remote ${plan.remote}, but the current remote is ${store.url}.`
+    );
+  }
+  if (plan.remoteId === null) {
+    if (remoteFound) {
+      planDrift("The plan expected no remote payload, but one exists now.");
+    }
+  } else if (remoteId !== plan.remoteId) {
+    planDrift(
+      `The plan targets ${plan.remoteId}, but the current remote is ${remoteId ?? "missing"}.`
+    );
+  } else if (remoteRevision !== plan.remoteRevision) {
+    planDrift(
+      `The remote changed since the plan was made (planned revision ${plan.remoteRevision ?? "unknown"}, current ${remoteRevision ?? "unknown"}).`
+    );
+  }
+
+  const localSkills = await getLocalSkills();
+  if (!areSameSkills(localSkills, plan.localSkills)) {
+    planDrift("Local skills changed since the plan was made.");
+  }
+
+  let gistCreated = false;
+  if (plan.uploadPayload) {
+    if (plan.remoteId === null) {
+      await store.create(plan.uploadPayload);
+      gistCreated = true;
+    } else {
+      await store.write(plan.remoteId, plan.uploadPayload, {
+        expectedRevision: plan.remoteRevision,
+      });
+    }
+  }
+
+  const { invalidInstallCandidates, validInstallCandidates } =
+    splitInstallCandidates(plan.installCandidates, plan);
+  const { heldBack, allowed } = await holdBackUnlessForced(
+    validInstallCandidates,
+    localSkills,
+    options
+  );
+  const installResult = await installSkills(allowed, {
+    verbose: !asJson,
+  });
+  const removeResult = await removeSkills(plan.removeCandidates, {
+    verbose: !asJson,
+  });
+  const failed: SyncFailure[] = [
+    ...invalidInstallCandidates,
+    ...heldBack,
+    ...installResult.failed,
+    ...removeResult.failed,
+  ];
+
+  const summary = createSummary({
+    mode: plan.mode,
+    dryRun: false,
+    gistFound: plan.remoteId !== null,
+    gistCreated,
+    remoteNewer: null,
+    uploaded: plan.uploadPayload ? 1 : 0,
+    installPlanned: plan.installCandidates.length,
+    installed: installResult.succeeded.length,
+    removePlanned: plan.removeCandidates.length,
+    removed: removeResult.succeeded.length,
+    failed,
+    details: describePlan(plan),
+    lastSyncAtUpdated: false,
+  });
+
+  if (failed.length === 0) {
+    await recordSuccessfulSync(
+      nowIso,
+      plan.uploadPayload?.skills ?? plan.remoteSkills
+    );
+    summary.lastSyncAtUpdated = true;
+  }
+
+  emitOutput(summary, asJson, formatSyncSummary);
+  return finalizeWithFailures(summary, asJson);
+}
@@ -0,0 +1,202 @@
+import { configStore } from "@/service/config";
+import {
+  createOctokit,
+  createSkillhubGist,
+  listSkillhubGists,
+  SkillhubGistCandidate,
+} from "@/service/gistService";
+import { resolveGitHubBaseUrl } from "@/service/githubHost";
+import { ensureToken, readGistOutcome, toReadError } from "@/service/remoteStore";
+import { CliError } from "@/utils/errors";
+import { emitOutput } from "@/utils/output";
+
+const GIST_ID_PATTERN = /^[0-9a-f]{20,}$/i;
+
+export type RunGistOptions = {
+  json?: boolean;
+};
+
+type GistListEntry = SkillhubGistCandidate & {
+  pinned: boolean;
+  // null when skillhub.json could not be read.
+  skillCount: number | null;
+  // Why it could not be read, e.g. a wrong passphrase or an invalid payload.
+  readError: string | null;
+};
+
+type GistListSummary = {
+  pinnedGistId: string | null;
+  gists: GistListEntry[];
+};
+
+type GistActionSummary = {
+  action: "use" | "create" | "adopt";
+  gistId: string;
+  // Whether the previous sync base was dropped because the gist changed.
+  baseReset: boolean;
+};
+
+function formatGistList(summary: GistListSummary) {
+  if (summary.gists.length === 0) {
+    return "No SkillHub gists found. Run `skillhub gist create` or `skillhub sync push` to create one.";
+  }
+  return summary.gists
+    .map((gist) => {
+      const marker = gist.pinned ? "*" : " ";
+      const line = `${marker} ${gist.id}  skills=${gist.skillCount ?? "unreadable"}  updatedAt=${
+        gist.updatedAt ?? "unknown"
+      }  description=${gist.description || "none"}`;
+      return gist.readError ? `${line}  error=${gist.readError.replace(/\n/g, " ")}` : line;
+    })
+    .join("\n");
+}
+
+function formatGistAction(summary: GistActionSummary) {
+  const lines = [];
+  switch (summary.action) {
+    case "use":
+      lines.push(`Pinned gist ${summary.gistId}.`);
+      break;
+    case "create":
+      lines.push(`Created gist ${summary.gistId} and pinned it.`);
+      break;
+    case "adopt":
+      lines.push(`Adopted gist ${summary.gistId} and pinned it.`);
+      break;
+  }
+  if (summary.baseReset) {
+    lines.push("The next sync starts without a base, like a first sync.");
+  }
+  return lines.join("\n");
+}
+
+async function openOctokit() {
+  const baseUrl = await resolveGitHubBaseUrl();
+  return createOctokit(await ensureToken(baseUrl), baseUrl);
+}
+
+// The sync base belongs to the previous gist, so it is dropped when switching.
+async function pinGist(gistId: string) {
+  const previousId = await configStore.getGistId();
+  await configStore.setGistId(gistId);
+  if (previousId === gistId) {
+    return false;
+  }
+  const hadBase = (await configStore.getBaseSkills()) !== undefined;
+  await configStore.clearBaseSkills();
+  await configStore.clearLastSyncAt();
+  return hadBase;
+}
+
+// Accepts a bare id or a gist URL such as https://gist.github.com/<user>/<id>.
+export function parseGistReference(reference: string) {
+  const trimmed = reference.trim();
+  if (GIST_ID_PATTERN.test(trimmed)) {
+    return trimmed;
+  }
+
+  let segments: string[];
+  try {
+    segments = new URL(trimmed).pathname.split("/").filter(Boolean);
+  } catch {
+    segments = [];
+  }
+  const candidate = segments[segments.length - 1]?.replace(/\.git$/, "");
+  if (!candidate || !GIST_ID_PATTERN.test(candidate)) {
+    throw new Error(
+      `Invalid gist reference "${reference}". Use a gist id or URL such as https://gist.github.com/<user>/<id>.`
+    );
+  }
+  return candidate;
+}
+
+export async function runGistList(options: RunGistOptions = {}) {
+  const octokit = await openOctokit();
+  const pinnedGistId = (await configStore.getGistId()) ?? null;
+  const candidates = await listSkillhubGists(octokit);
+
+  // One unreadable gist (wrong passphrase, corrupt payload) must not hide the others.
+  const gists: GistListEntry[] = [];
+  for (const candidate of candidates) {
+    let skillCount: number | null = null;
+    let readError: string | null = null;
+    try {
+      const outcome = await readGistOutcome(octokit, candidate.id);
+      if (outcome.kind === "found") {
+        skillCount = outcome.snapshot.payload!.skills.length;
+      } else {
+        readError = outcome.kind === "not-found" ? "Gist not found." : outcome.message;
+      }
+    } catch (error) {
+      readError = error instanceof Error ? error.message : String(error);
+    }
+    gists.push({
+      ...candidate,
+      pinned: candidate.id === pinnedGistId,
+      skillCount,
+      readError,
+    });
+  }
+
+  const summary: GistListSummary = { pinnedGistId, gists };
+  emitOutput(summary, options.json === true, formatGistList);
+  return summary;
+}
+
+export async function runGistUse(gistId: string, options: RunGistOptions = {}) {
+  const octokit = await openOctokit();
+  const candidates = await listSkillhubGists(octokit);
+  if (!candidates.some((candidate) => candidate.id === gistId)) {
+    throw new CliError(
+      "REMOTE_NOT_FOUND",
+      `Gist ${gistId} is not one of your SkillHub gists. Run \`skillhub gist list\`, or \`skillhub gist adopt <url>\` for a gist owned by someone else.`
+    );
+  }
+
+  const summary: GistActionSummary = {
+    action: "use",
+    gistId,
+    baseReset: await pinGist(gistId),
+  };
+  emitOutput(summary, options.json === true, formatGistAction);
+  return summary;
+}
+
+export async function runGistCreate(options: RunGistOptions = {}) {
+  const octokit = await openOctokit();
+  const created = await createSkillhubGist(octokit, {
+    skills: [],
+    updatedAt: new Date().toISOString(),
+  });
+  if (!created.id) {
+    throw new Error("Gist was created, but the ID could not be determined.");
+  }
+
+  const summary: GistActionSummary = {
+    action: "create",
+    gistId: created.id,
+    baseReset: await pinGist(created.id),
+  };
+  emitOutput(summary, options.json === true, formatGistAction);
+  return summary;
+}
+
+export async function runGistAdopt(reference: string, options: RunGistOptions = {}) {
+  const gistId = parseGistReference(reference);
+  const octokit = await openOctokit();
+  const outcome = await readGistOutcome(octokit, gistId);
+  if (outcome.kind === "invalid-payload") {
+    throw new CliError(outcome.code, `Gist ${gistId} cannot be adopted: ${outcome.message}`);
+  }
+  if (outcome.kind !== "found") {
+    throw toReadError(gistId, outcome);
+  }
+
+  const summary: GistActionSummary = {
+    action: "adopt",
+    gistId,
+    baseReset: await pinGist(gistId),
+  };
+  emitOutput(summary, options.json === true, formatGistAction);
+  return summary;
+}
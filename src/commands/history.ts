@@ -0,0 +1,129 @@
+import { diffSkills, normalizeSkills } from "@/core/syncCore";
+import { SkillhubPayload, SkillInfo } from "@/service/gistService";
+import { resolveRemoteState } from "@/commands/sync";
+import { isInvalidPayloadError } from "@/utils/errors";
+import { emitOutput } from "@/utils/output";
+
+const DEFAULT_HISTORY_LIMIT = 10;
+
+export type RunHistoryOptions = {
+  limit?: number;
+  json?: boolean;
+};
+
+type HistoryEntry = {
+  revision: string;
+  committedAt: string | null;
+  valid: boolean;
+  // Why the revision's payload could not be read; null when it is valid.
+  error: string | null;
+  skillCount: number | null;
+  added: SkillInfo[];
+  removed: SkillInfo[];
+};
+
+type HistorySummary = {
+  remote: string;
+  remoteId: string;
+  revisions: HistoryEntry[];
+};
+
+function formatSkillLine(prefix: string, skill: SkillInfo) {
+  return `    ${prefix} ${skill.name} (${skill.source})`;
+}
+
+function formatHistorySummary(summary: HistorySummary) {
+  if (summary.revisions.length === 0) {
+    return `No revisions found for ${summary.remoteId} (${summary.remote}).`;
+  }
+
+  const lines = [`History of ${summary.remoteId} (${summary.remote}):`];
+  for (const entry of summary.revisions) {
+    const countPart = entry.valid
+      ? `${entry.skillCount} skill(s), +${entry.added.length} -${entry.removed.length}`
+      : `unreadable payload: ${entry.error?.split("\n")[0] ?? "unknown error"}`;
+    lines.push(
+      `  ${entry.revision.slice(0, 7)}  ${entry.committedAt ?? "unknown"}  ${countPart}`
+    );
+    lines.push(...entry.added.map((skill) => formatSkillLine("+", skill)));
+    lines.push(...entry.removed.map((skill) => formatSkillLine("-", skill)));
+  }
+
+  return lines.join("\n");
+}
+
+export async function runHistory(options: RunHistoryOptions = {}) {
+  const asJson = options.json === true;
+  const limit = options.limit ?? DEFAULT_HISTORY_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error("--limit must be a positive integer.");
+  }
+
+  // A broken current payload must not hide the revisions that could restore it.
+  const { store, remoteId } = await resolveRemoteState({ recreate: true });
+  if (!remoteId) {
+    throw new Error(
+      "Remote SkillHub payload not found. Run `skillhub sync push` to create it first."
+    );
+  }
+
+  // Read one extra revision so the oldest listed entry still has something to diff against.
+  const revisions = (await store.history(remoteId)).slice(
+    0,
+    limit + 1
+  );
+  const payloads: (SkillhubPayload | null)[] = [];
+  const errors: (string | null)[] = [];
+  for (const item of revisions) {
+    try {
+      payloads.push(await store.readRevision(remoteId, item.revision));
+      errors.push(null);
+    } catch (error) {
+      if (!isInvalidPayloadError(error)) {
+        throw error;
+      }
+      payloads.push(null);
+      errors.push((error as Error).message);
+    }
+  }
+
+  const entries: HistoryEntry[] = revisions.slice(0, limit).map((item, index) => {
+    const payload = payloads[index];
+    if (!payload) {
+      return {
+        revision: item.revision,
+        committedAt: item.committedAt,
+        valid: false,
+        error: errors[index] ?? "skillhub.json is missing in this revision.",
+        skillCount: null,
+        added: [],
+        removed: [],
+      };
+    }
+
+    const skills = normalizeSkills(payload.skills);
+    const previousPayload = payloads[index + 1];
+    const previousSkills = previousPayload
+      ? normalizeSkills(previousPayload.skills)
+      : [];
+    const { added, removed } = diffSkills(skills, previousSkills);
+
+    return {
+      revision: item.revision,
+      committedAt: item.committedAt,
+      valid: true,
+      error: null,
+      skillCount: skills.length,
+      added,
+      removed,
+    };
+  });
+
+  const summary: HistorySummary = {
+    remote: store.url,
+    remoteId,
+    revisions: entries,
+  };
+  emitOutput(summary, asJson, formatHistorySummary);
+  return summary;
+}
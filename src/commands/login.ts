@@ -1,34 +1,109 @@
-import { configStore } from "@/service/config";
+import { AuthFlow, configStore } from "@/service/config";
+import {
+  pollForDeviceToken,
+  requestDeviceCode,
+  resolveDeviceFlowConfig,
+} from "@/service/deviceFlow";
 import { verifyToken } from "@/service/gistService";
+import {
+  getGitHubHost,
+  normalizeGitHubBaseUrl,
+  resolveGitHubBaseUrl,
+} from "@/service/githubHost";
+import { storeToken } from "@/service/token";
 
 const TOKEN_PROMPT_MESSAGE =
   "Create a GitHub Personal Access Token (classic) with the `gist` scope, then paste it here:";
 
-export async function runLogin() {
+export type RunLoginOptions = {
+  // GitHub Enterprise Server hostname (or API URL); defaults to the current host.
+  hostname?: string;
+  // Use the OAuth device authorization flow instead of pasting a PAT.
+  web?: boolean;
+  clientId?: string;
+  // Read the token from stdin instead of prompting.
+  withToken?: boolean;
+};
+
+async function readTokenFromStdin() {
+  if (process.stdin.isTTY) {
+    throw new Error(
+      "--with-token reads the token from stdin. Pipe it in, for example: `echo $TOKEN | skillhub auth login --with-token`."
+    );
+  }
+
+  let content = "";
+  process.stdin.setEncoding("utf-8");
+  for await (const chunk of process.stdin) {
+    content += chunk;
+  }
+
+  const token = content.trim();
+  if (!token) {
+    throw new Error("No token was provided on stdin.");
+  }
+  return token;
+}
+
+async function promptForToken(host: string) {
   const { default: inquirer } = await import("inquirer");
   const { token } = await inquirer.prompt<{ token: string }>([
     {
       type: "password",
       name: "token",
-      message: TOKEN_PROMPT_MESSAGE,
+      message: `${TOKEN_PROMPT_MESSAGE} (${host})`,
       mask: "*",
       validate: (value: string) =>
         value.trim().length > 0 ? true : "Please enter a token.",
     },
   ]);
+  return token.trim();
+}
+
+async function obtainDeviceFlowToken(baseUrl: string, clientId: string | undefined) {
+  const config = resolveDeviceFlowConfig(baseUrl, clientId);
+  const code = await requestDeviceCode(config);
+
+  console.log(`First copy your one-time code: ${code.userCode}`);
+  console.log(`Then open ${code.verificationUri} in your browser to authorize SkillHub.`);
+  console.log("Waiting for authorization...");
+
+  return pollForDeviceToken(config, code);
+}
+
+export async function runLogin(options: RunLoginOptions = {}) {
+  const baseUrl = options.hostname
+    ? normalizeGitHubBaseUrl(options.hostname)
+    : await resolveGitHubBaseUrl();
+  const host = getGitHubHost(baseUrl);
+  if (options.web && options.withToken) {
+    throw new Error("--web and --with-token cannot be used together.");
+  }
+  const authFlow: AuthFlow = options.web ? "device" : "pat";
 
-  const trimmedToken = token.trim();
+  let token: string;
+  if (authFlow === "device") {
+    token = await obtainDeviceFlowToken(baseUrl, options.clientId);
+  } else if (options.withToken) {
+    token = await readTokenFromStdin();
+  } else {
+    token = await promptForToken(host);
+  }
 
   try {
-    await verifyToken(trimmedToken);
-    await configStore.setToken(trimmedToken);
-    console.log("Login successful: token has been saved.");
+    await verifyToken(token, baseUrl);
+    await storeToken(token);
+    await configStore.setAuthFlow(authFlow);
+    await configStore.setGitHubBaseUrl(baseUrl);
+    console.log(`Login successful: token for ${host} has been saved.`);
   } catch (error) {
     console.error(
-      [
-        "Login failed: token is invalid or cannot access the Gist API.",
-        "Please create a GitHub Personal Access Token (classic) with the `gist` scope and try again.",
-      ].join("\n")
+      authFlow === "device"
+        ? `Login failed: the authorized token cannot access the Gist API on ${host}.`
+        : [
+            `Login failed: token is invalid or cannot access the Gist API on ${host}.`,
+            "Please create a GitHub Personal Access Token (classic) with the `gist` scope and try again.",
+          ].join("\n")
     );
     throw error;
   }
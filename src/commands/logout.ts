@@ -15,7 +15,14 @@ export type LogoutStore = {
   clearSession: () => Promise<void>;
 };
 
-const REMOVED_KEYS = ["githubToken", "gistId", "lastSyncAt"];
+const REMOVED_KEYS = [
+  "githubToken",
+  "githubTokenEncrypted",
+  "authFlow",
+  "gistId",
+  "lastSyncAt",
+  "baseSkills",
+];
 
 function formatLogoutSummary(summary: LogoutSummary) {
   if (!summary.cleared) {
@@ -41,7 +48,7 @@ export async function runLogout(options: RunLogoutOptions = {}) {
         name: "confirm",
         default: false,
         message:
-          "Delete stored GitHub session data (token, gistId, lastSyncAt)?",
+          "Delete stored GitHub session data (token, gistId, lastSyncAt, baseSkills)?",
       },
     ]);
 
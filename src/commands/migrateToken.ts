@@ -0,0 +1,34 @@
+import { decryptStoredToken, encryptStoredToken } from "@/service/token";
+import { emitOutput } from "@/utils/output";
+
+export type RunMigrateTokenOptions = {
+  encrypt?: boolean;
+  decrypt?: boolean;
+  json?: boolean;
+};
+
+type MigrateTokenSummary = {
+  encrypted: boolean;
+};
+
+function formatMigrateTokenSummary(summary: MigrateTokenSummary) {
+  return summary.encrypted
+    ? "Stored token is now encrypted with your passphrase."
+    : "Stored token is now saved in plaintext.";
+}
+
+export async function runMigrateToken(options: RunMigrateTokenOptions) {
+  if (options.encrypt === options.decrypt) {
+    throw new Error("Specify exactly one of --encrypt or --decrypt.");
+  }
+
+  if (options.encrypt) {
+    await encryptStoredToken();
+  } else {
+    await decryptStoredToken();
+  }
+
+  const summary: MigrateTokenSummary = { encrypted: options.encrypt === true };
+  emitOutput(summary, options.json === true, formatMigrateTokenSummary);
+  return summary;
+}
@@ -0,0 +1,120 @@
+import { holdBackUnlessForced } from "@/commands/sync";
+import { parseSkillSelector } from "@/core/syncCore";
+import { SkillInfo } from "@/service/gistService";
+import { getLocalSkills, installSkills, recordInstalledRefs } from "@/service/skillsService";
+import { createSkillSourceOctokit, resolveCommitSha } from "@/service/skillRefs";
+import { CliError } from "@/utils/errors";
+import { emitOutput } from "@/utils/output";
+
+export type RunPinOptions = {
+  // Disambiguates a skill name installed from several sources.
+  source?: string;
+  // Reinstalls over a skill edited since skillhub installed it.
+  force?: boolean;
+  json?: boolean;
+};
+
+type PinSummary = {
+  action: "pin" | "unpin";
+  skill: SkillInfo;
+  previousRef: string | null;
+};
+
+function formatPinSummary(summary: PinSummary) {
+  const { skill } = summary;
+  const lines =
+    summary.action === "pin"
+      ? [`Pinned ${skill.name} (${skill.source}) to ${skill.ref}.`]
+      : [`Unpinned ${skill.name} (${skill.source}); it now follows the default branch.`];
+  lines.push("Run `skillhub sync push` to record the change in the remote payload.");
+  return lines.join("\n");
+}
+
+// `selector` is `name` or `owner/repo:name`; `--source` narrows a bare name the same way.
+function findInstalledSkill(
+  localSkills: SkillInfo[],
+  selector: string,
+  sourceOption: string | undefined
+) {
+  const parsed = parseSkillSelector(selector);
+  const name = parsed.name;
+  const source = parsed.source ?? sourceOption;
+  const matches = localSkills.filter(
+    (skill) => skill.name === name && (!source || skill.source === source)
+  );
+  if (matches.length === 0) {
+    throw new CliError(
+      "SKILL_NOT_INSTALLED",
+      `Skill "${name}"${source ? ` from ${source}` : ""} is not installed.`
+    );
+  }
+  if (matches.length > 1) {
+    throw new CliError(
+      "AMBIGUOUS_SKILL",
+      `Skill "${name}" is installed from several sources (${matches
+        .map((skill) => skill.source)
+        .join(", ")}). Use owner/repo:${name} or --source <owner/repo>.`
+    );
+  }
+  return matches[0]!;
+}
+
+// Reinstalls the skill at `ref` (default: the current default-branch commit) and records it.
+export async function runPin(name: string, ref: string | undefined, options: RunPinOptions = {}) {
+  const localSkills = await getLocalSkills();
+  const installed = findInstalledSkill(localSkills, name, options.source);
+  if (installed.embedded) {
+    throw new CliError(
+      "EMBEDDED_SKILL",
+      `Skill "${installed.name}" is authored locally and synced with its files; there is no ref to pin.`
+    );
+  }
+  const pinnedRef =
+    ref?.trim() ||
+    (await resolveCommitSha(await createSkillSourceOctokit(), installed.source));
+  const skill: SkillInfo = { name: installed.name, source: installed.source, ref: pinnedRef };
+
+  const { heldBack } = await holdBackUnlessForced([skill], localSkills, options);
+  if (heldBack[0]) {
+    throw new CliError("SKILL_MODIFIED", heldBack[0].reason);
+  }
+
+  const result = await installSkills([skill]);
+  const failure = result.failed[0];
+  if (failure) {
+    throw new CliError(
+      "INSTALL_FAILED",
+      `Could not install ${skill.name} at ${pinnedRef}: ${failure.reason}`
+    );
+  }
+
+  const summary: PinSummary = {
+    action: "pin",
+    skill,
+    previousRef: installed.ref ?? null,
+  };
+  emitOutput(summary, options.json === true, formatPinSummary);
+  return summary;
+}
+
+// Forgets the pinned ref; the installed files stay as they are until the next install.
+export async function runUnpin(name: string, options: RunPinOptions = {}) {
+  const installed = findInstalledSkill(await getLocalSkills(), name, options.source);
+  if (!installed.ref) {
+    throw new CliError(
+      "NOT_PINNED",
+      `Skill "${installed.name}" (${installed.source}) is not pinned.`
+    );
+  }
+
+  const skill: SkillInfo = { name: installed.name, source: installed.source };
+  await recordInstalledRefs([skill]);
+
+  const summary: PinSummary = {
+    action: "unpin",
+    skill,
+    previousRef: installed.ref,
+  };
+  emitOutput(summary, options.json === true, formatPinSummary);
+  return summary;
+}
@@ -0,0 +1,107 @@
+import { configStore } from "@/service/config";
+import { emitOutput } from "@/utils/output";
+
+export type RunProfileOptions = {
+  json?: boolean;
+};
+
+type ProfileListEntry = {
+  name: string;
+  active: boolean;
+  loggedIn: boolean;
+  gistId: string | null;
+  lastSyncAt: string | null;
+};
+
+type ProfileListSummary = {
+  activeProfile: string;
+  profiles: ProfileListEntry[];
+};
+
+type ProfileActionSummary = {
+  action: "create" | "use" | "delete";
+  profile: string;
+};
+
+function formatProfileList(summary: ProfileListSummary) {
+  return summary.profiles
+    .map((profile) => {
+      const marker = profile.active ? "*" : " ";
+      return `${marker} ${profile.name}  loggedIn=${profile.loggedIn}  gistId=${
+        profile.gistId ?? "none"
+      }  lastSyncAt=${profile.lastSyncAt ?? "none"}`;
+    })
+    .join("\n");
+}
+
+function formatProfileAction(summary: ProfileActionSummary) {
+  switch (summary.action) {
+    case "create":
+      return `Profile "${summary.profile}" created.`;
+    case "use":
+      return `Active profile set to "${summary.profile}".`;
+    case "delete":
+      return `Profile "${summary.profile}" deleted.`;
+  }
+}
+
+export async function runProfileList(options: RunProfileOptions = {}) {
+  const activeProfile = await configStore.getProfileName();
+  const profiles = await configStore.listProfiles();
+
+  const summary: ProfileListSummary = {
+    activeProfile,
+    profiles: profiles.map((profile) => ({
+      name: profile.name,
+      active: profile.name === activeProfile,
+      loggedIn: Boolean(profile.githubToken || profile.githubTokenEncrypted),
+      gistId: profile.gistId ?? null,
+      lastSyncAt: profile.lastSyncAt ?? null,
+    })),
+  };
+  emitOutput(summary, options.json === true, formatProfileList);
+  return summary;
+}
+
+export async function runProfileCreate(
+  name: string,
+  options: RunProfileOptions = {}
+) {
+  await configStore.createProfile(name);
+  const summary: ProfileActionSummary = { action: "create", profile: name };
+  emitOutput(summary, options.json === true, formatProfileAction);
+  return summary;
+}
+
+export async function runProfileUse(name: string, options: RunProfileOptions = {}) {
+  await configStore.useProfile(name);
+  const summary: ProfileActionSummary = { action: "use", profile: name };
+  emitOutput(summary, options.json === true, formatProfileAction);
+  return summary;
+}
+
+export async function runProfileDelete(
+  name: string,
+  options: RunProfileOptions & { yes?: boolean } = {}
+) {
+  if (options.yes !== true) {
+    const { default: inquirer } = await import("inquirer");
+    const { confirm } = await inquirer.prompt<{ confirm: boolean }>([
+      {
+        type: "confirm",
+        name: "confirm",
+        default: false,
+        message: `Delete profile "${name}" and its stored token, gist id and sync state?`,
+      },
+    ]);
+
+    if (!confirm) {
+      throw new Error("Profile delete cancelled.");
+    }
+  }
+
+  await configStore.deleteProfile(name);
+  const summary: ProfileActionSummary = { action: "delete", profile: name };
+  emitOutput(summary, options.json === true, formatProfileAction);
+  return summary;
+}
@@ -0,0 +1,66 @@
+import { configStore } from "@/service/config";
+import { GIST_REMOTE, parseRemoteUrl } from "@/service/remoteStore";
+import { emitOutput } from "@/utils/output";
+
+export type RunRemoteOptions = {
+  json?: boolean;
+};
+
+type RemoteSummary = {
+  profile: string;
+  remote: string;
+  configured: boolean;
+  payloadEncryption: boolean;
+};
+
+function formatRemoteSummary(summary: RemoteSummary) {
+  return [
+    `profile=${summary.profile}`,
+    `remote=${summary.remote}`,
+    `configured=${summary.configured}`,
+    `payloadEncryption=${summary.payloadEncryption}`,
+  ].join("\n");
+}
+
+async function buildRemoteSummary(): Promise<RemoteSummary> {
+  const remote = await configStore.getRemote();
+  return {
+    profile: await configStore.getProfileName(),
+    remote: remote ?? GIST_REMOTE,
+    configured: remote !== undefined,
+    payloadEncryption: (await configStore.getPayloadEncryption()) === true,
+  };
+}
+
+export async function runRemoteShow(options: RunRemoteOptions = {}) {
+  const summary = await buildRemoteSummary();
+  emitOutput(summary, options.json === true, formatRemoteSummary);
+  return summary;
+}
+
+export async function runRemoteSet(url: string, options: RunRemoteOptions = {}) {
+  parseRemoteUrl(url);
+  if (url === GIST_REMOTE) {
+    await configStore.clearRemote();
+  } else {
+    await configStore.setRemote(url);
+  }
+
+  const summary = await buildRemoteSummary();
+  emitOutput(summary, options.json === true, formatRemoteSummary);
+  return summary;
+}
+
+export async function runRemoteEncryption(
+  setting: string,
+  options: RunRemoteOptions = {}
+) {
+  if (setting !== "on" && setting !== "off") {
+    throw new Error(`Invalid encryption setting "${setting}". Use "on" or "off".`);
+  }
+  await configStore.setPayloadEncryption(setting === "on");
+
+  const summary = await buildRemoteSummary();
+  emitOutput(summary, options.json === true, formatRemoteSummary);
+  return summary;
+}
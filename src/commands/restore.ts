@@ -0,0 +1,234 @@
+import { buildPullPlan, buildPushPlan, normalizeSkills } from "@/core/syncCore";
+import { SkillhubPayload, SkillInfo } from "@/service/gistService";
+import { getLocalSkills, installSkills, removeSkills } from "@/service/skillsService";
+import {
+  holdBackUnlessForced,
+  recordSuccessfulSync,
+  resolveRemoteState,
+  splitInstallCandidates,
+  SyncFailure,
+} from "@/commands/sync";
+import { emitOutput } from "@/utils/output";
+
+export type RestoreTarget = "remote" | "local" | "both";
+
+const RESTORE_TARGETS: RestoreTarget[] = ["remote", "local", "both"];
+
+export type RunRestoreOptions = {
+  target?: string;
+  dryRun?: boolean;
+  yes?: boolean;
+  // Accept an unreadable current payload; restoring to the remote replaces it.
+  recreate?: boolean;
+  // Reinstall skills even when they were edited since skillhub installed them.
+  force?: boolean;
+  json?: boolean;
+};
+
+type RestoreSummary = {
+  ok: boolean;
+  revision: string;
+  target: RestoreTarget;
+  dryRun: boolean;
+  skillCount: number;
+  uploaded: number;
+  installPlanned: number;
+  installed: number;
+  removePlanned: number;
+  removed: number;
+  failed: SyncFailure[];
+  lastSyncAtUpdated: boolean;
+};
+
+function formatRestoreSummary(summary: RestoreSummary) {
+  const prefix = summary.dryRun ? "Dry-run restore" : "Restore";
+  const failurePart =
+    summary.failed.length > 0
+      ? ` (${summary.failed.length} failed - check logs or JSON output)`
+      : "";
+
+  const actionLine = summary.dryRun
+    ? `${prefix} ${summary.revision.slice(0, 7)}: would upload ${summary.uploaded} change(s), would install ${summary.installPlanned} skill(s), would remove ${summary.removePlanned} skill(s)`
+    : `${prefix} ${summary.revision.slice(0, 7)}: uploaded ${summary.uploaded} change(s), installed ${summary.installed} skill(s), removed ${summary.removed} skill(s)`;
+
+  return [
+    actionLine + failurePart,
+    `revision=${summary.revision}`,
+    `target=${summary.target}`,
+    `skillCount=${summary.skillCount}`,
+    `lastSyncAtUpdated=${summary.lastSyncAtUpdated}`,
+  ].join("\n");
+}
+
+function parseRestoreTarget(value: string | undefined): RestoreTarget {
+  const target = (value ?? "both") as RestoreTarget;
+  if (!RESTORE_TARGETS.includes(target)) {
+    throw new Error(
+      `Invalid restore target "${value}". Use one of: ${RESTORE_TARGETS.join(", ")}.`
+    );
+  }
+  return target;
+}
+
+async function confirmRestoreRemovalsIfNeeded(
+  removeCandidates: SkillInfo[],
+  options: RunRestoreOptions
+) {
+  if (removeCandidates.length === 0 || options.yes === true) {
+    return;
+  }
+
+  const { default: inquirer } = await import("inquirer");
+  const { confirm } = await inquirer.prompt<{ confirm: boolean }>([
+    {
+      type: "confirm",
+      name: "confirm",
+      default: false,
+      message: `Restore will remove ${removeCandidates.length} local skill(s). Continue?`,
+    },
+  ]);
+
+  if (!confirm) {
+    throw new Error("Restore cancelled.");
+  }
+}
+
+export async function runRestore(
+  revisionInput: string,
+  options: RunRestoreOptions = {}
+) {
+  const dryRun = options.dryRun === true;
+  const asJson = options.json === true;
+  const target = parseRestoreTarget(options.target);
+  const restoreRemote = target !== "local";
+  const restoreLocal = target !== "remote";
+
+  const nowIso = new Date().toISOString();
+  const { store, remoteId, remotePayload, remoteRevision, remoteCorrupt } =
+    await resolveRemoteState({ recreate: options.recreate });
+  if (!remoteId) {
+    throw new Error(
+      "Remote SkillHub payload not found. Run `skillhub sync push` to create it first."
+    );
+  }
+
+  // Accept abbreviated revision SHAs as printed by `skillhub history`.
+  const revisions = await store.history(remoteId);
+  const matches = revisions.filter((item) =>
+    item.revision.startsWith(revisionInput)
+  );
+  if (matches.length === 0) {
+    throw new Error(`Revision "${revisionInput}" not found in ${remoteId}.`);
+  }
+  if (matches.length > 1) {
+    throw new Error(
+      `Revision "${revisionInput}" is ambiguous. Use more characters of the revision SHA.`
+    );
+  }
+  const revision = matches[0]!.revision;
+
+  const restoredSource = await store.readRevision(remoteId, revision);
+  if (!restoredSource) {
+    throw new Error(
+      `Revision ${revision} does not contain a valid skillhub.json payload.`
+    );
+  }
+  const restoredPayload: SkillhubPayload = {
+    skills: normalizeSkills(restoredSource.skills),
+    updatedAt: nowIso,
+  };
+
+  const pushPlan = restoreRemote
+    ? buildPushPlan({
+        localPayload: restoredPayload,
+        remotePayload: remotePayload ?? { skills: [], updatedAt: "" },
+        nowIso,
+      })
+    : null;
+  // An unreadable payload is always replaced, even by an empty revision.
+  if (pushPlan && remoteCorrupt) {
+    pushPlan.uploadPayload = restoredPayload;
+  }
+  const pullPlan = restoreLocal
+    ? buildPullPlan({
+        localPayload: { skills: await getLocalSkills(), updatedAt: nowIso },
+        remotePayload: restoredPayload,
+      })
+    : null;
+  const installCandidates = pullPlan?.installCandidates ?? [];
+  const removeCandidates = pullPlan?.removeCandidates ?? [];
+  const { invalidInstallCandidates, validInstallCandidates } =
+    splitInstallCandidates(installCandidates, pullPlan ?? undefined);
+  const { heldBack, allowed } = await holdBackUnlessForced(
+    validInstallCandidates,
+    pullPlan?.localSkills ?? [],
+    options
+  );
+
+  const summary: RestoreSummary = {
+    ok: true,
+    revision,
+    target,
+    dryRun,
+    skillCount: restoredPayload.skills.length,
+    uploaded: pushPlan?.uploadPayload ? 1 : 0,
+    installPlanned: installCandidates.length,
+    installed: 0,
+    removePlanned: removeCandidates.length,
+    removed: 0,
+    failed: [...invalidInstallCandidates, ...heldBack],
+    lastSyncAtUpdated: false,
+  };
+
+  if (dryRun) {
+    summary.ok = summary.failed.length === 0;
+    emitOutput(summary, asJson, formatRestoreSummary);
+    return summary;
+  }
+
+  await confirmRestoreRemovalsIfNeeded(removeCandidates, options);
+
+  if (pushPlan?.uploadPayload) {
+    await store.write(remoteId, pushPlan.uploadPayload, {
+      expectedRevision: remoteRevision,
+    });
+  }
+
+  if (pullPlan) {
+    const installResult = await installSkills(allowed, {
+      verbose: !asJson,
+    });
+    const removeResult = await removeSkills(removeCandidates, {
+      verbose: !asJson,
+    });
+    summary.installed = installResult.succeeded.length;
+    summary.removed = removeResult.succeeded.length;
+    summary.failed = [
+      ...invalidInstallCandidates,
+      ...heldBack,
+      ...installResult.failed,
+      ...removeResult.failed,
+    ];
+  }
+
+  summary.ok = summary.failed.length === 0;
+  // Only a restore of both sides leaves local and remote in the same state.
+  if (summary.ok && target === "both") {
+    await recordSuccessfulSync(nowIso, restoredPayload.skills);
+    summary.lastSyncAtUpdated = true;
+  }
+
+  emitOutput(summary, asJson, formatRestoreSummary);
+
+  if (!summary.ok) {
+    if (asJson) {
+      process.exitCode = 1;
+      return summary;
+    }
+    throw new Error(
+      `Restore completed with ${summary.failed.length} failed operation(s). Check logs above.`
+    );
+  }
+
+  return summary;
+}
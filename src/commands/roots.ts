@@ -0,0 +1,59 @@
+import { configStore } from "@/service/config";
+import { getSkillRoots, scanSkillRoots, SkillRootsSource } from "@/service/skillScan";
+import { emitOutput } from "@/utils/output";
+
+export type RunRootsOptions = {
+  json?: boolean;
+};
+
+type RootsSummary = {
+  source: SkillRootsSource;
+  roots: Array<{ path: string; exists: boolean }>;
+  skillCount: number;
+};
+
+function formatRootsSummary(summary: RootsSummary) {
+  return [
+    `source=${summary.source}`,
+    `skillCount=${summary.skillCount}`,
+    ...summary.roots.map(
+      (root) => `- ${root.path}${root.exists ? "" : " (missing)"}`
+    ),
+  ].join("\n");
+}
+
+async function buildRootsSummary(): Promise<RootsSummary> {
+  const { roots, source } = await getSkillRoots();
+  const scan = await scanSkillRoots(roots);
+  return {
+    source,
+    roots: roots.map((root) => ({ path: root, exists: scan.roots.includes(root) })),
+    skillCount: scan.skills.length,
+  };
+}
+
+export async function runRootsShow(options: RunRootsOptions = {}) {
+  const summary = await buildRootsSummary();
+  emitOutput(summary, options.json === true, formatRootsSummary);
+  return summary;
+}
+
+// Relative paths are resolved against the home directory when scanning.
+export async function runRootsSet(directories: string[], options: RunRootsOptions = {}) {
+  if (directories.length === 0) {
+    throw new Error("Pass at least one directory, or use `skillhub roots reset`.");
+  }
+  await configStore.setSkillRoots(directories);
+
+  const summary = await buildRootsSummary();
+  emitOutput(summary, options.json === true, formatRootsSummary);
+  return summary;
+}
+
+export async function runRootsReset(options: RunRootsOptions = {}) {
+  await configStore.clearSkillRoots();
+
+  const summary = await buildRootsSummary();
+  emitOutput(summary, options.json === true, formatRootsSummary);
+  return summary;
+}
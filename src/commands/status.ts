@@ -1,6 +1,15 @@
+import { findNameCollisions, SkillCollision } from "@/core/syncCore";
 import { configStore } from "@/service/config";
-import { checkGistAccess, createOctokit } from "@/service/gistService";
-import { getLocalSkills } from "@/service/skillsService";
+import { getGitHubHost, resolveGitHubBaseUrl } from "@/service/githubHost";
+import { isStoredTokenEncrypted, resolveToken, TokenSource } from "@/service/token";
+import { diagnoseToken, TokenDiagnostics } from "@/service/tokenDiagnostics";
+import {
+  getLocalInventory,
+  InventoryAttempt,
+  InventorySource,
+  scanLocalSkills,
+} from "@/service/skillsService";
+import type { ScannedSkill } from "@/service/skillScan";
 import { emitOutput } from "@/utils/output";
 
 export type RunStatusOptions = {
@@ -8,22 +17,46 @@ export type RunStatusOptions = {
 };
 
 type StatusSummary = {
-  loggedIn: boolean;
+  profile: string;
+  host: string;
+  apiUrl: string;
+  // Null when a stored token exists but could not be unlocked.
+  loggedIn: boolean | null;
+  tokenSource: TokenSource | null;
+  tokenEncrypted: boolean;
+  authFlow: string | null;
   gistId: string | null;
   lastSyncAt: string | null;
   localSkillCount: number | null;
+  // Strategy that produced the local list, and the ones tried before it.
+  inventorySource: InventorySource | null;
+  inventoryAttempts: InventoryAttempt[];
+  // Skill folders under the skill roots that no lock file attributes to a source.
+  unsourcedSkills: ScannedSkill[];
+  // Skills the inventory lists but no lock file attributes to a repository.
+  unknownSourceSkills: string[];
+  // Installed skills whose name is recorded for more than one source.
+  localCollisions: SkillCollision[];
   remoteAccessible: boolean | null;
+  // Null when there is no token or GitHub could not be reached.
+  token: TokenDiagnostics | null;
   errors: string[];
 };
 
 function formatStatusSummary(summary: StatusSummary) {
   const lines = [
-    `loggedIn=${summary.loggedIn}`,
+    `profile=${summary.profile}`,
+    `host=${summary.host}`,
+    `loggedIn=${summary.loggedIn ?? "unknown"}`,
+    `tokenSource=${summary.tokenSource ?? "none"}`,
+    `tokenEncrypted=${summary.tokenEncrypted}`,
+    `authFlow=${summary.authFlow ?? "none"}`,
     `gistId=${summary.gistId ?? "none"}`,
     `lastSyncAt=${summary.lastSyncAt ?? "none"}`,
     `localSkillCount=${
       summary.localSkillCount === null ? "unavailable" : String(summary.localSkillCount)
     }`,
+    `inventorySource=${summary.inventorySource ?? "none"}`,
     `remoteAccessible=${
       summary.remoteAccessible === null
         ? "unknown"
@@ -31,6 +64,44 @@ function formatStatusSummary(summary: StatusSummary) {
     }`,
   ];
 
+  for (const attempt of summary.inventoryAttempts) {
+    if (attempt.status === "unavailable") {
+      lines.push(`inventorySkipped=${attempt.source}: ${attempt.detail}`);
+    }
+  }
+
+  for (const skill of summary.unsourcedSkills) {
+    lines.push(`unsourced=${skill.name} (${skill.path})`);
+  }
+
+  for (const name of summary.unknownSourceSkills) {
+    lines.push(`unknownSource=${name}`);
+  }
+
+  for (const collision of summary.localCollisions) {
+    lines.push(
+      `collision=${collision.name} (${collision.sources.join(", ")}); refer to one as owner/repo:${collision.name}`
+    );
+  }
+
+  if (summary.token) {
+    const { token } = summary;
+    lines.push(
+      `tokenType=${token.type}`,
+      `login=${token.login ?? "unknown"}`,
+      `scopes=${token.scopes === null ? "unreported" : token.scopes.join(",") || "none"}`,
+      `tokenExpiresAt=${token.expiresAt ?? "none"}`,
+      `rateLimitRemaining=${token.rateLimit?.remaining ?? "unknown"}`,
+      `rateLimitResetAt=${token.rateLimit?.resetAt ?? "unknown"}`
+    );
+    if (token.hints.length > 0) {
+      lines.push(`hints=${token.hints.length}`);
+      for (const hint of token.hints) {
+        lines.push(`- ${hint}`);
+      }
+    }
+  }
+
   if (summary.errors.length > 0) {
     lines.push(`errors=${summary.errors.length}`);
     for (const error of summary.errors) {
@@ -43,36 +114,76 @@ function formatStatusSummary(summary: StatusSummary) {
 
 export async function runStatus(options: RunStatusOptions = {}) {
   const asJson = options.json === true;
-  const token = await configStore.getToken();
+  const profile = await configStore.getProfileName();
+  const tokenEncrypted = await isStoredTokenEncrypted();
+  let unlockError: string | null = null;
+  let token: string | null = null;
+  let tokenSource: TokenSource | null = null;
+  try {
+    ({ token, source: tokenSource } = await resolveToken());
+  } catch (error) {
+    // A locked token is reported, not fatal: diagnosing it is what status is for.
+    unlockError = error instanceof Error ? error.message : String(error);
+    tokenSource = "config";
+  }
   const gistId = await configStore.getGistId();
   const lastSyncAt = await configStore.getLastSyncAt();
+  const apiUrl = await resolveGitHubBaseUrl();
 
   const summary: StatusSummary = {
-    loggedIn: Boolean(token),
+    profile,
+    host: getGitHubHost(apiUrl),
+    apiUrl,
+    loggedIn: unlockError ? null : Boolean(token),
+    tokenSource,
+    tokenEncrypted,
+    authFlow:
+      tokenSource === "config" ? ((await configStore.getAuthFlow()) ?? "pat") : null,
     gistId: gistId ?? null,
     lastSyncAt: lastSyncAt ?? null,
     localSkillCount: null,
-    remoteAccessible: token ? null : false,
-    errors: [],
+    inventorySource: null,
+    inventoryAttempts: [],
+    unsourcedSkills: [],
+    unknownSourceSkills: [],
+    localCollisions: [],
+    remoteAccessible: token || unlockError ? null : false,
+    token: null,
+    errors: unlockError ? [`Failed to unlock the stored GitHub token: ${unlockError}`] : [],
   };
 
   try {
-    const localSkills = await getLocalSkills();
-    summary.localSkillCount = localSkills.length;
+    const inventory = await getLocalInventory();
+    summary.localSkillCount = inventory.skills.length;
+    summary.inventorySource = inventory.source;
+    summary.inventoryAttempts = inventory.attempts;
+    summary.unknownSourceSkills = inventory.unknownSources;
+    summary.localCollisions = findNameCollisions(inventory.skills);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     summary.errors.push(`Failed to read local skills: ${message}`);
   }
 
+  try {
+    summary.unsourcedSkills = (await scanLocalSkills()).unsourced;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    summary.errors.push(`Failed to scan skill roots: ${message}`);
+  }
+
   if (token) {
     try {
-      const octokit = createOctokit(token);
-      await checkGistAccess(octokit);
-      summary.remoteAccessible = true;
+      summary.token = await diagnoseToken(token, apiUrl);
+      summary.remoteAccessible = summary.token.gistAccess;
+      if (!summary.token.gistAccess) {
+        summary.errors.push(`Token cannot access the GitHub Gist API on ${summary.host}.`);
+      }
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       summary.remoteAccessible = false;
-      summary.errors.push(`Failed to access GitHub Gist API: ${message}`);
+      summary.errors.push(
+        `Failed to access GitHub Gist API on ${summary.host}: ${message}`
+      );
     }
   }
 
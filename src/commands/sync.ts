@@ -1,19 +1,25 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { SAVED_PLAN_VERSION, serializeSavedPlan } from "@/core/planFile";
 import {
+  AutoSyncPlan,
   buildAutoPlan,
   buildMergePlan,
   buildPullPlan,
   buildPushPlan,
+  diffSkills,
+  findNameCollisions,
+  MergeSyncPlan,
+  normalizeSkills,
+  PullSyncPlan,
+  SkillCollision,
+  skillKey,
+  SyncMode,
+  withoutEmbeddedFiles,
 } from "@/core/syncCore";
 import { configStore } from "@/service/config";
-import {
-  createOctokit,
-  createSkillhubGist,
-  findSkillhubGist,
-  getSkillhubPayload,
-  SkillInfo,
-  SkillhubPayload,
-  updateSkillhubGist,
-} from "@/service/gistService";
+import { SkillInfo, SkillhubPayload } from "@/service/gistService";
+import { LocateOptions, openRemoteStore, RemoteStore } from "@/service/remoteStore";
 import {
   getLocalSkills,
   InstallFailure,
@@ -22,20 +28,64 @@ import {
   RemoveFailure,
   removeSkills,
 } from "@/service/skillsService";
+import { holdBackModifiedSkills } from "@/service/skillChecksums";
+import { resolveSkillRefs } from "@/service/skillRefs";
+import { RemoteConflictError } from "@/utils/errors";
 import { emitOutput } from "@/utils/output";
 
-type SyncMode = "pull" | "push" | "merge" | "auto";
-type SyncFailure = InstallFailure | RemoveFailure;
+const MAX_CONFLICT_ATTEMPTS = 3;
+
+export type SyncFailure = InstallFailure | RemoveFailure;
+
+type PlanOperationType = "install" | "remove" | "upload";
+
+export type SkippedOperation = {
+  type: PlanOperationType;
+  skill: SkillInfo | null;
+};
+
+type SelectablePlan = {
+  installCandidates: SkillInfo[];
+  removeCandidates: SkillInfo[];
+  uploadPayload?: SkillhubPayload | null;
+};
+
+// Operation ids chosen by the user; anything not listed is skipped.
+type PlanSelection = Set<string>;
+
+// Concrete skills behind the summary counts.
+export type SyncPlanDetails = {
+  install: SkillInfo[];
+  remove: SkillInfo[];
+  uploadAdded: SkillInfo[];
+  uploadRemoved: SkillInfo[];
+  // Uploaded with a different ref than the remote had.
+  uploadUpdated: SkillInfo[];
+  // Same-named skills from different sources across local and remote.
+  collisions: SkillCollision[];
+};
 
 export type RunSyncModeOptions = {
   dryRun?: boolean;
   json?: boolean;
+  interactive?: boolean;
+  // Write the computed plan to this file instead of applying it.
+  planOut?: string;
+  // Replace an unreadable remote payload instead of failing (merge, auto, push).
+  recreate?: boolean;
+  // Reinstall skills even when they were edited since skillhub installed them.
+  force?: boolean;
 };
 
 export type RunSyncPullOptions = RunSyncModeOptions & {
   yes?: boolean;
 };
 
+export type RunSyncPushOptions = RunSyncModeOptions & {
+  // Record the exact commit SHA of every skill's ref (default branch when unset).
+  resolveRefs?: boolean;
+};
+
 type SyncSummary = {
   ok: boolean;
   mode: SyncMode;
@@ -49,10 +99,102 @@ type SyncSummary = {
   removePlanned: number;
   removed: number;
   failed: SyncFailure[];
+  skipped: SkippedOperation[];
+  details: SyncPlanDetails;
+  planFile: string | null;
   lastSyncAtUpdated: boolean;
 };
 
-function formatSyncSummary(summary: SyncSummary) {
+const EMPTY_PLAN_DETAILS: SyncPlanDetails = {
+  install: [],
+  remove: [],
+  uploadAdded: [],
+  uploadRemoved: [],
+  uploadUpdated: [],
+  collisions: [],
+};
+
+function formatSkillChange(prefix: "+" | "-" | "~", skill: SkillInfo) {
+  const ref = skill.ref ? `@${skill.ref}` : "";
+  const hash = skill.embedded ? ` ${skill.embedded.hash.slice(0, 19)}` : "";
+  return `  ${prefix} ${skill.name} (${skill.source}${ref}${hash})`;
+}
+
+function formatPlanDetails(details: SyncPlanDetails) {
+  const lines: string[] = [];
+
+  if (details.install.length > 0 || details.remove.length > 0) {
+    lines.push("Local changes:");
+    lines.push(...details.install.map((skill) => formatSkillChange("+", skill)));
+    lines.push(...details.remove.map((skill) => formatSkillChange("-", skill)));
+  }
+
+  if (
+    details.uploadAdded.length > 0 ||
+    details.uploadRemoved.length > 0 ||
+    details.uploadUpdated.length > 0
+  ) {
+    lines.push("Remote changes:");
+    lines.push(
+      ...details.uploadAdded.map((skill) => formatSkillChange("+", skill))
+    );
+    lines.push(
+      ...details.uploadRemoved.map((skill) => formatSkillChange("-", skill))
+    );
+    lines.push(
+      ...details.uploadUpdated.map((skill) => formatSkillChange("~", skill))
+    );
+  }
+
+  if (details.collisions.length > 0) {
+    lines.push("Name collisions (use owner/repo:name to refer to one):");
+    lines.push(
+      ...details.collisions.map(
+        (collision) => `  ! ${collision.name}: ${collision.sources.join(", ")}`
+      )
+    );
+  }
+
+  return lines;
+}
+
+export function describePlan(plan: {
+  localSkills?: SkillInfo[];
+  remoteSkills: SkillInfo[];
+  installCandidates?: SkillInfo[];
+  removeCandidates?: SkillInfo[];
+  uploadPayload?: SkillhubPayload | null;
+}): SyncPlanDetails {
+  const uploadDiff = plan.uploadPayload
+    ? diffSkills(normalizeSkills(plan.uploadPayload.skills), plan.remoteSkills)
+    : { added: [], removed: [], updated: [] };
+
+  return {
+    install: plan.installCandidates ?? [],
+    remove: plan.removeCandidates ?? [],
+    uploadAdded: uploadDiff.added,
+    uploadRemoved: uploadDiff.removed,
+    uploadUpdated: uploadDiff.updated,
+    collisions: findNameCollisions([...(plan.localSkills ?? []), ...plan.remoteSkills]),
+  };
+}
+
+function describeGistCreation(localSkills: SkillInfo[]): SyncPlanDetails {
+  return {
+    ...EMPTY_PLAN_DETAILS,
+    uploadAdded: normalizeSkills(localSkills),
+    collisions: findNameCollisions(localSkills),
+  };
+}
+
+function formatSkippedOperation(operation: SkippedOperation) {
+  if (!operation.skill) {
+    return `- ${operation.type} skillhub.json`;
+  }
+  return `- ${operation.type} ${operation.skill.name} (${operation.skill.source})`;
+}
+
+export function formatSyncSummary(summary: SyncSummary) {
   const prefix = summary.dryRun ? "Dry-run" : "Sync";
   const failurePart =
     summary.failed.length > 0
@@ -65,6 +207,7 @@ function formatSyncSummary(summary: SyncSummary) {
 
   const details = [
     actionLine + failurePart,
+    ...formatPlanDetails(summary.details),
     `mode=${summary.mode}`,
     `gistFound=${summary.gistFound}`,
     `gistCreated=${summary.gistCreated}`,
@@ -74,10 +217,19 @@ function formatSyncSummary(summary: SyncSummary) {
     `lastSyncAtUpdated=${summary.lastSyncAtUpdated}`,
   ];
 
+  if (summary.planFile) {
+    details.push(`planFile=${summary.planFile}`);
+  }
+
+  if (summary.skipped.length > 0) {
+    details.push(`skipped=${summary.skipped.length}`);
+    details.push(...summary.skipped.map(formatSkippedOperation));
+  }
+
   return details.join("\n");
 }
 
-function createSummary(params: {
+export function createSummary(params: {
   mode: SyncMode;
   dryRun: boolean;
   gistFound: boolean;
@@ -89,6 +241,8 @@ function createSummary(params: {
   removePlanned: number;
   removed: number;
   failed: SyncFailure[];
+  skipped?: SkippedOperation[];
+  details?: SyncPlanDetails;
   lastSyncAtUpdated: boolean;
 }): SyncSummary {
   return {
@@ -104,11 +258,56 @@ function createSummary(params: {
     removePlanned: params.removePlanned,
     removed: params.removed,
     failed: params.failed,
+    skipped: params.skipped ?? [],
+    details: params.details ?? EMPTY_PLAN_DETAILS,
+    planFile: null,
     lastSyncAtUpdated: params.lastSyncAtUpdated,
   };
 }
 
-function finalizeWithFailures(summary: SyncSummary, asJson: boolean) {
+async function savePlanIfRequested(
+  planOut: string | undefined,
+  params: {
+    mode: SyncMode;
+    remote: string;
+    remoteId: string | null;
+    remoteRevision: string | null;
+    nowIso: string;
+    plan: {
+      localSkills: SkillInfo[];
+      remoteSkills: SkillInfo[];
+      installCandidates?: SkillInfo[];
+      removeCandidates?: SkillInfo[];
+      uploadPayload?: SkillhubPayload | null;
+    };
+  }
+) {
+  if (!planOut) {
+    return null;
+  }
+
+  const planPath = path.resolve(planOut);
+  await fs.writeFile(
+    planPath,
+    serializeSavedPlan({
+      version: SAVED_PLAN_VERSION,
+      mode: params.mode,
+      createdAt: params.nowIso,
+      remote: params.remote,
+      remoteId: params.remoteId,
+      remoteRevision: params.remoteRevision,
+      localSkills: params.plan.localSkills,
+      remoteSkills: params.plan.remoteSkills,
+      installCandidates: params.plan.installCandidates ?? [],
+      removeCandidates: params.plan.removeCandidates ?? [],
+      uploadPayload: params.plan.uploadPayload ?? null,
+    }),
+    "utf-8"
+  );
+  return planPath;
+}
+
+export function finalizeWithFailures(summary: SyncSummary, asJson: boolean) {
   if (summary.failed.length === 0) {
     return summary;
   }
@@ -123,76 +322,217 @@ function finalizeWithFailures(summary: SyncSummary, asJson: boolean) {
   );
 }
 
-async function ensureToken() {
-  const token = await configStore.getToken();
-  if (!token) {
-    throw new Error(
-      "You must login first. Run `skillhub auth login` and try again."
-    );
+export async function resolveRemoteState(options: LocateOptions = {}) {
+  const store = await openRemoteStore();
+  const location = await store.locate(options);
+
+  return {
+    store,
+    remoteId: location.id,
+    remoteFound: location.id !== null,
+    remotePayload: location.payload,
+    remoteRevision: location.revision,
+    remoteCorrupt: location.corrupt,
+  };
+}
+
+// Uploads the plan payload only if the remote is still at the revision it was planned
+// against. On a conflict the latest remote state is re-read and the plan rebuilt.
+async function uploadPlanWithConflictRetry<
+  TPlan extends { uploadPayload: SkillhubPayload | null },
+>(params: {
+  store: RemoteStore;
+  remoteId: string;
+  revision: string | null;
+  plan: TPlan;
+  rebuildPlan: (remotePayload: SkillhubPayload) => TPlan;
+}) {
+  let plan = params.plan;
+  let revision = params.revision;
+
+  for (let attempt = 1; ; attempt += 1) {
+    if (!plan.uploadPayload) {
+      return plan;
+    }
+
+    try {
+      await params.store.write(params.remoteId, plan.uploadPayload, {
+        expectedRevision: revision,
+      });
+      return plan;
+    } catch (error) {
+      if (!(error instanceof RemoteConflictError)) {
+        throw error;
+      }
+      if (attempt >= MAX_CONFLICT_ATTEMPTS) {
+        throw new RemoteConflictError(
+          `Remote skillhub.json kept changing during sync (${attempt} attempt(s)). Another machine may be syncing; retry later.`
+        );
+      }
+    }
+
+    const snapshot = await params.store.read(params.remoteId);
+    revision = snapshot.revision;
+    plan = params.rebuildPlan(asPlanPayload(snapshot.payload));
   }
-  return token;
 }
 
-async function safeGetPayload(
-  octokit: ReturnType<typeof createOctokit>,
-  gistId: string
+export async function recordSuccessfulSync(
+  nowIso: string,
+  syncedSkills: SkillhubPayload["skills"]
 ) {
-  try {
-    return await getSkillhubPayload(octokit, gistId);
-  } catch {
-    return null;
-  }
+  await configStore.setLastSyncAt(nowIso);
+  await configStore.setBaseSkills(withoutEmbeddedFiles(normalizeSkills(syncedSkills)));
+}
+
+function asPlanPayload(payload: SkillhubPayload | null): SkillhubPayload {
+  return payload ?? { skills: [], updatedAt: "" };
 }
 
-async function resolveRemoteState(token: string) {
-  const octokit = createOctokit(token);
-  let gistId = await configStore.getGistId();
-  let remotePayload: SkillhubPayload | null = null;
+// A same-named skill from another source that stays installed, or is installed alongside.
+function findInstallCollision(
+  skill: SkillInfo,
+  candidates: SkillInfo[],
+  context: { localSkills: SkillInfo[]; removeCandidates?: SkillInfo[] }
+) {
+  const removedKeys = new Set((context.removeCandidates ?? []).map(skillKey));
+  const isOtherSource = (other: SkillInfo) =>
+    other.name === skill.name && other.source !== skill.source;
+
+  return (
+    context.localSkills.find(
+      (local) => isOtherSource(local) && !removedKeys.has(skillKey(local))
+    ) ?? candidates.find(isOtherSource)
+  );
+}
 
-  if (gistId) {
-    remotePayload = await safeGetPayload(octokit, gistId);
-    if (!remotePayload) {
-      gistId = undefined;
+// Invalid sources and name collisions are reported as failures instead of being installed.
+export function splitInstallCandidates(
+  candidates: SkillInfo[],
+  context?: { localSkills: SkillInfo[]; removeCandidates?: SkillInfo[] }
+) {
+  const invalidInstallCandidates: InstallFailure[] = [];
+  const validInstallCandidates: SkillInfo[] = [];
+
+  for (const skill of candidates) {
+    if (!skill.embedded && !isValidSource(skill.source)) {
+      invalidInstallCandidates.push({
+        skill,
+        reason: `Invalid source "${skill.source}". Expected owner/repo format.`,
+      });
+      continue;
     }
-  }
 
-  if (!gistId) {
-    const found = await findSkillhubGist(octokit);
-    if (found?.id) {
-      gistId = found.id;
-      await configStore.setGistId(found.id);
-      remotePayload = await safeGetPayload(octokit, found.id);
+    const collision = context && findInstallCollision(skill, candidates, context);
+    if (collision) {
+      invalidInstallCandidates.push({
+        skill,
+        reason: `Name collision: "${skill.name}" from ${skill.source} would replace ${skillKey(collision)}. Keep only one of them in skillhub.json, or uninstall ${skillKey(collision)} first.`,
+      });
+      continue;
     }
+    validInstallCandidates.push(skill);
   }
 
   return {
-    octokit,
-    gistId,
-    gistFound: Boolean(gistId),
-    remotePayload,
+    invalidInstallCandidates,
+    validInstallCandidates,
   };
 }
 
-function asPlanPayload(payload: SkillhubPayload | null): SkillhubPayload {
-  return payload ?? { skills: [], updatedAt: "" };
+// Installs never replace hand-edited skills unless `--force` is given.
+export async function holdBackUnlessForced(
+  candidates: SkillInfo[],
+  localSkills: SkillInfo[],
+  options: { force?: boolean }
+) {
+  if (options.force) {
+    return { heldBack: [] as InstallFailure[], allowed: candidates };
+  }
+  return holdBackModifiedSkills(candidates, localSkills);
 }
 
-function splitInstallCandidates(candidates: SkillInfo[]) {
-  const invalidInstallCandidates: InstallFailure[] = candidates
-    .filter((skill) => !isValidSource(skill.source))
-    .map((skill) => ({
-      skill,
-      reason: `Invalid source "${skill.source}". Expected owner/repo format.`,
-    }));
+function operationId(type: PlanOperationType, skill: SkillInfo | null) {
+  return skill ? `${type}:${skillKey(skill)}` : type;
+}
 
-  const validInstallCandidates = candidates.filter((skill) =>
-    isValidSource(skill.source)
-  );
+async function promptPlanSelection(
+  mode: SyncMode,
+  plan: SelectablePlan
+): Promise<PlanSelection> {
+  const choices = [
+    ...plan.installCandidates.map((skill) => ({
+      name: `install ${skill.name} (${skill.source})`,
+      value: operationId("install", skill),
+      checked: true,
+    })),
+    ...plan.removeCandidates.map((skill) => ({
+      name: `remove ${skill.name} (${skill.source})`,
+      value: operationId("remove", skill),
+      checked: true,
+    })),
+    ...(plan.uploadPayload
+      ? [
+          {
+            name: `upload skillhub.json (${plan.uploadPayload.skills.length} skill(s))`,
+            value: operationId("upload", null),
+            checked: true,
+          },
+        ]
+      : []),
+  ];
 
-  return {
-    invalidInstallCandidates,
-    validInstallCandidates,
+  if (choices.length === 0) {
+    return new Set();
+  }
+
+  const { default: inquirer } = await import("inquirer");
+  const { selected } = await inquirer.prompt<{ selected: string[] }>([
+    {
+      type: "checkbox",
+      name: "selected",
+      message: `Select the ${mode} operations to apply`,
+      choices,
+    },
+  ]);
+
+  return new Set(selected);
+}
+
+// Keeps only the selected operations. Operations that appear after a re-plan were
+// never reviewed, so they are skipped as well.
+function applyPlanSelection<TPlan extends SelectablePlan>(
+  plan: TPlan,
+  selection: PlanSelection
+) {
+  const isSelected = (type: PlanOperationType, skill: SkillInfo | null) =>
+    selection.has(operationId(type, skill));
+  const skipped: SkippedOperation[] = [
+    ...plan.installCandidates
+      .filter((skill) => !isSelected("install", skill))
+      .map((skill) => ({ type: "install" as const, skill })),
+    ...plan.removeCandidates
+      .filter((skill) => !isSelected("remove", skill))
+      .map((skill) => ({ type: "remove" as const, skill })),
+    ...(plan.uploadPayload && !isSelected("upload", null)
+      ? [{ type: "upload" as const, skill: null }]
+      : []),
+  ];
+
+  const selectedPlan: TPlan = {
+    ...plan,
+    installCandidates: plan.installCandidates.filter((skill) =>
+      isSelected("install", skill)
+    ),
+    removeCandidates: plan.removeCandidates.filter((skill) =>
+      isSelected("remove", skill)
+    ),
   };
+  if (plan.uploadPayload && !isSelected("upload", null)) {
+    selectedPlan.uploadPayload = null;
+  }
+
+  return { plan: selectedPlan, skipped };
 }
 
 async function confirmPullRemovalsIfNeeded(
@@ -219,10 +559,9 @@ async function confirmPullRemovalsIfNeeded(
 }
 
 export async function runSyncMerge(options: RunSyncModeOptions = {}) {
-  const dryRun = options.dryRun === true;
+  const dryRun = options.dryRun === true || Boolean(options.planOut);
   const asJson = options.json === true;
 
-  const token = await ensureToken();
   const nowIso = new Date().toISOString();
   const localSkills = await getLocalSkills();
   const localPayload: SkillhubPayload = {
@@ -230,10 +569,10 @@ export async function runSyncMerge(options: RunSyncModeOptions = {}) {
     updatedAt: nowIso,
   };
 
-  const { octokit, gistId, gistFound, remotePayload } =
-    await resolveRemoteState(token);
+  const { store, remoteId, remoteFound, remotePayload, remoteRevision, remoteCorrupt } =
+    await resolveRemoteState({ recreate: options.recreate });
 
-  if (!gistFound) {
+  if (!remoteFound) {
     if (dryRun) {
       const summary = createSummary({
         mode: "merge",
@@ -247,19 +586,27 @@ export async function runSyncMerge(options: RunSyncModeOptions = {}) {
         removePlanned: 0,
         removed: 0,
         failed: [],
+        details: describeGistCreation(localSkills),
         lastSyncAtUpdated: false,
       });
+      summary.planFile = await savePlanIfRequested(options.planOut, {
+        mode: "merge",
+        remote: store.url,
+        remoteId: null,
+        remoteRevision: null,
+        nowIso,
+        plan: {
+          localSkills: normalizeSkills(localSkills),
+          remoteSkills: [],
+          uploadPayload: localPayload,
+        },
+      });
       emitOutput(summary, asJson, formatSyncSummary);
       return summary;
     }
 
-    const created = await createSkillhubGist(octokit, localPayload);
-    if (!created.id) {
-      throw new Error("Gist was created, but the ID could not be determined.");
-    }
-
-    await configStore.setGistId(created.id);
-    await configStore.setLastSyncAt(nowIso);
+    await store.create(localPayload);
+    await recordSuccessfulSync(nowIso, localSkills);
 
     const summary = createSummary({
       mode: "merge",
@@ -273,21 +620,32 @@ export async function runSyncMerge(options: RunSyncModeOptions = {}) {
       removePlanned: 0,
       removed: 0,
       failed: [],
+      details: describeGistCreation(localSkills),
       lastSyncAtUpdated: true,
     });
     emitOutput(summary, asJson, formatSyncSummary);
     return summary;
   }
 
-  const plan = buildMergePlan({
+  // A replaced payload says nothing about past syncs, so plan like a first sync.
+  const baseSkills = remoteCorrupt ? undefined : await configStore.getBaseSkills();
+  let plan = buildMergePlan({
     localPayload,
     remotePayload: asPlanPayload(remotePayload),
+    baseSkills,
     nowIso,
   });
-  const { invalidInstallCandidates, validInstallCandidates } =
-    splitInstallCandidates(plan.installCandidates);
 
   if (dryRun) {
+    const { invalidInstallCandidates, validInstallCandidates } = splitInstallCandidates(
+      plan.installCandidates,
+      plan
+    );
+    const { heldBack } = await holdBackUnlessForced(
+      validInstallCandidates,
+      plan.localSkills,
+      options
+    );
     const summary = createSummary({
       mode: "merge",
       dryRun: true,
@@ -297,27 +655,73 @@ export async function runSyncMerge(options: RunSyncModeOptions = {}) {
       uploaded: plan.uploadPayload ? 1 : 0,
       installPlanned: plan.installCandidates.length,
       installed: 0,
-      removePlanned: 0,
+      removePlanned: plan.removeCandidates.length,
       removed: 0,
-      failed: invalidInstallCandidates,
+      failed: [...invalidInstallCandidates, ...heldBack],
+      details: describePlan(plan),
       lastSyncAtUpdated: false,
     });
+    summary.planFile = await savePlanIfRequested(options.planOut, {
+      mode: "merge",
+      remote: store.url,
+      remoteId,
+      remoteRevision,
+      nowIso,
+      plan,
+    });
     emitOutput(summary, asJson, formatSyncSummary);
     return summary;
   }
 
-  const installResult = await installSkills(validInstallCandidates, {
+  const selection = options.interactive
+    ? await promptPlanSelection("merge", plan)
+    : null;
+  let skipped: SkippedOperation[] = [];
+  const selectOperations = (candidate: MergeSyncPlan) => {
+    if (!selection) {
+      return candidate;
+    }
+    const selected = applyPlanSelection(candidate, selection);
+    skipped = selected.skipped;
+    return selected.plan;
+  };
+
+  plan = await uploadPlanWithConflictRetry({
+    store,
+    remoteId: remoteId!,
+    revision: remoteRevision,
+    plan: selectOperations(plan),
+    rebuildPlan: (latestPayload) =>
+      selectOperations(
+        buildMergePlan({
+          localPayload,
+          remotePayload: latestPayload,
+          baseSkills,
+          nowIso,
+        })
+      ),
+  });
+  const { invalidInstallCandidates, validInstallCandidates } =
+    splitInstallCandidates(plan.installCandidates, plan);
+  const { heldBack, allowed } = await holdBackUnlessForced(
+    validInstallCandidates,
+    plan.localSkills,
+    options
+  );
+
+  const installResult = await installSkills(allowed, {
+    verbose: !asJson,
+  });
+  const removeResult = await removeSkills(plan.removeCandidates, {
     verbose: !asJson,
   });
   const failed: SyncFailure[] = [
     ...invalidInstallCandidates,
+    ...heldBack,
     ...installResult.failed,
+    ...removeResult.failed,
   ];
 
-  if (plan.uploadPayload) {
-    await updateSkillhubGist(octokit, gistId!, plan.uploadPayload);
-  }
-
   const summary = createSummary({
     mode: "merge",
     dryRun: false,
@@ -327,14 +731,20 @@ export async function runSyncMerge(options: RunSyncModeOptions = {}) {
     uploaded: plan.uploadPayload ? 1 : 0,
     installPlanned: plan.installCandidates.length,
     installed: installResult.succeeded.length,
-    removePlanned: 0,
-    removed: 0,
+    removePlanned: plan.removeCandidates.length,
+    removed: removeResult.succeeded.length,
     failed,
+    skipped,
+    details: describePlan(plan),
     lastSyncAtUpdated: false,
   });
 
-  if (failed.length === 0) {
-    await configStore.setLastSyncAt(nowIso);
+  // Skipped operations leave local and remote apart, so the base must not advance.
+  if (failed.length === 0 && skipped.length === 0) {
+    await recordSuccessfulSync(
+      nowIso,
+      plan.uploadPayload?.skills ?? plan.remoteSkills
+    );
     summary.lastSyncAtUpdated = true;
   }
 
@@ -343,10 +753,9 @@ export async function runSyncMerge(options: RunSyncModeOptions = {}) {
 }
 
 export async function runSyncAuto(options: RunSyncModeOptions = {}) {
-  const dryRun = options.dryRun === true;
+  const dryRun = options.dryRun === true || Boolean(options.planOut);
   const asJson = options.json === true;
 
-  const token = await ensureToken();
   const nowIso = new Date().toISOString();
   const localSkills = await getLocalSkills();
   const localPayload: SkillhubPayload = {
@@ -354,10 +763,10 @@ export async function runSyncAuto(options: RunSyncModeOptions = {}) {
     updatedAt: nowIso,
   };
 
-  const { octokit, gistId, gistFound, remotePayload } =
-    await resolveRemoteState(token);
+  const { store, remoteId, remoteFound, remotePayload, remoteRevision, remoteCorrupt } =
+    await resolveRemoteState({ recreate: options.recreate });
 
-  if (!gistFound) {
+  if (!remoteFound) {
     if (dryRun) {
       const summary = createSummary({
         mode: "auto",
@@ -371,19 +780,27 @@ export async function runSyncAuto(options: RunSyncModeOptions = {}) {
         removePlanned: 0,
         removed: 0,
         failed: [],
+        details: describeGistCreation(localSkills),
         lastSyncAtUpdated: false,
       });
+      summary.planFile = await savePlanIfRequested(options.planOut, {
+        mode: "auto",
+        remote: store.url,
+        remoteId: null,
+        remoteRevision: null,
+        nowIso,
+        plan: {
+          localSkills: normalizeSkills(localSkills),
+          remoteSkills: [],
+          uploadPayload: localPayload,
+        },
+      });
       emitOutput(summary, asJson, formatSyncSummary);
       return summary;
     }
 
-    const created = await createSkillhubGist(octokit, localPayload);
-    if (!created.id) {
-      throw new Error("Gist was created, but the ID could not be determined.");
-    }
-
-    await configStore.setGistId(created.id);
-    await configStore.setLastSyncAt(nowIso);
+    await store.create(localPayload);
+    await recordSuccessfulSync(nowIso, localSkills);
 
     const summary = createSummary({
       mode: "auto",
@@ -397,6 +814,7 @@ export async function runSyncAuto(options: RunSyncModeOptions = {}) {
       removePlanned: 0,
       removed: 0,
       failed: [],
+      details: describeGistCreation(localSkills),
       lastSyncAtUpdated: true,
     });
     emitOutput(summary, asJson, formatSyncSummary);
@@ -404,16 +822,26 @@ export async function runSyncAuto(options: RunSyncModeOptions = {}) {
   }
 
   const lastSyncAt = await configStore.getLastSyncAt();
-  const plan = buildAutoPlan({
+  // A replaced payload says nothing about past syncs, so plan like a first sync.
+  const baseSkills = remoteCorrupt ? undefined : await configStore.getBaseSkills();
+  let plan = buildAutoPlan({
     localPayload,
     remotePayload: asPlanPayload(remotePayload),
+    baseSkills,
     lastSyncAt,
     nowIso,
   });
-  const { invalidInstallCandidates, validInstallCandidates } =
-    splitInstallCandidates(plan.installCandidates);
 
   if (dryRun) {
+    const { invalidInstallCandidates, validInstallCandidates } = splitInstallCandidates(
+      plan.installCandidates,
+      plan
+    );
+    const { heldBack } = await holdBackUnlessForced(
+      validInstallCandidates,
+      plan.localSkills,
+      options
+    );
     const summary = createSummary({
       mode: "auto",
       dryRun: true,
@@ -423,27 +851,74 @@ export async function runSyncAuto(options: RunSyncModeOptions = {}) {
       uploaded: plan.uploadPayload ? 1 : 0,
       installPlanned: plan.installCandidates.length,
       installed: 0,
-      removePlanned: 0,
+      removePlanned: plan.removeCandidates.length,
       removed: 0,
-      failed: invalidInstallCandidates,
+      failed: [...invalidInstallCandidates, ...heldBack],
+      details: describePlan(plan),
       lastSyncAtUpdated: false,
     });
+    summary.planFile = await savePlanIfRequested(options.planOut, {
+      mode: "auto",
+      remote: store.url,
+      remoteId,
+      remoteRevision,
+      nowIso,
+      plan,
+    });
     emitOutput(summary, asJson, formatSyncSummary);
     return summary;
   }
 
-  const installResult = await installSkills(validInstallCandidates, {
+  const selection = options.interactive
+    ? await promptPlanSelection("auto", plan)
+    : null;
+  let skipped: SkippedOperation[] = [];
+  const selectOperations = (candidate: AutoSyncPlan) => {
+    if (!selection) {
+      return candidate;
+    }
+    const selected = applyPlanSelection(candidate, selection);
+    skipped = selected.skipped;
+    return selected.plan;
+  };
+
+  plan = await uploadPlanWithConflictRetry({
+    store,
+    remoteId: remoteId!,
+    revision: remoteRevision,
+    plan: selectOperations(plan),
+    rebuildPlan: (latestPayload) =>
+      selectOperations(
+        buildAutoPlan({
+          localPayload,
+          remotePayload: latestPayload,
+          baseSkills,
+          lastSyncAt,
+          nowIso,
+        })
+      ),
+  });
+  const { invalidInstallCandidates, validInstallCandidates } =
+    splitInstallCandidates(plan.installCandidates, plan);
+  const { heldBack, allowed } = await holdBackUnlessForced(
+    validInstallCandidates,
+    plan.localSkills,
+    options
+  );
+
+  const installResult = await installSkills(allowed, {
+    verbose: !asJson,
+  });
+  const removeResult = await removeSkills(plan.removeCandidates, {
     verbose: !asJson,
   });
   const failed: SyncFailure[] = [
     ...invalidInstallCandidates,
+    ...heldBack,
     ...installResult.failed,
+    ...removeResult.failed,
   ];
 
-  if (plan.uploadPayload) {
-    await updateSkillhubGist(octokit, gistId!, plan.uploadPayload);
-  }
-
   const summary = createSummary({
     mode: "auto",
     dryRun: false,
@@ -453,14 +928,20 @@ export async function runSyncAuto(options: RunSyncModeOptions = {}) {
     uploaded: plan.uploadPayload ? 1 : 0,
     installPlanned: plan.installCandidates.length,
     installed: installResult.succeeded.length,
-    removePlanned: 0,
-    removed: 0,
+    removePlanned: plan.removeCandidates.length,
+    removed: removeResult.succeeded.length,
     failed,
+    skipped,
+    details: describePlan(plan),
     lastSyncAtUpdated: false,
   });
 
-  if (failed.length === 0) {
-    await configStore.setLastSyncAt(nowIso);
+  // Skipped operations leave local and remote apart, so the base must not advance.
+  if (failed.length === 0 && skipped.length === 0) {
+    await recordSuccessfulSync(
+      nowIso,
+      plan.uploadPayload?.skills ?? plan.remoteSkills
+    );
     summary.lastSyncAtUpdated = true;
   }
 
@@ -468,22 +949,27 @@ export async function runSyncAuto(options: RunSyncModeOptions = {}) {
   return finalizeWithFailures(summary, asJson);
 }
 
-export async function runSyncPush(options: RunSyncModeOptions = {}) {
-  const dryRun = options.dryRun === true;
+export async function runSyncPush(options: RunSyncPushOptions = {}) {
+  const dryRun = options.dryRun === true || Boolean(options.planOut);
   const asJson = options.json === true;
 
-  const token = await ensureToken();
   const nowIso = new Date().toISOString();
-  const localSkills = await getLocalSkills();
+  // Resolved SHAs only go into the payload; nothing is reinstalled, so installed refs stay.
+  // The base records the skills as the next run sees them locally, so the pinned SHAs
+  // read as a remote change (installed by the next pull, merge or auto), not a local one.
+  const installedSkills = await getLocalSkills();
+  const localSkills = options.resolveRefs
+    ? await resolveSkillRefs(installedSkills)
+    : installedSkills;
   const localPayload: SkillhubPayload = {
     skills: localSkills,
     updatedAt: nowIso,
   };
 
-  const { octokit, gistId, gistFound, remotePayload } =
-    await resolveRemoteState(token);
+  const { store, remoteId, remoteFound, remotePayload, remoteRevision } =
+    await resolveRemoteState({ recreate: options.recreate });
 
-  if (!gistFound) {
+  if (!remoteFound) {
     if (dryRun) {
       const summary = createSummary({
         mode: "push",
@@ -497,19 +983,27 @@ export async function runSyncPush(options: RunSyncModeOptions = {}) {
         removePlanned: 0,
         removed: 0,
         failed: [],
+        details: describeGistCreation(localSkills),
         lastSyncAtUpdated: false,
       });
+      summary.planFile = await savePlanIfRequested(options.planOut, {
+        mode: "push",
+        remote: store.url,
+        remoteId: null,
+        remoteRevision: null,
+        nowIso,
+        plan: {
+          localSkills: normalizeSkills(localSkills),
+          remoteSkills: [],
+          uploadPayload: localPayload,
+        },
+      });
       emitOutput(summary, asJson, formatSyncSummary);
       return summary;
     }
 
-    const created = await createSkillhubGist(octokit, localPayload);
-    if (!created.id) {
-      throw new Error("Gist was created, but the ID could not be determined.");
-    }
-
-    await configStore.setGistId(created.id);
-    await configStore.setLastSyncAt(nowIso);
+    await store.create(localPayload);
+    await recordSuccessfulSync(nowIso, installedSkills);
 
     const summary = createSummary({
       mode: "push",
@@ -523,13 +1017,14 @@ export async function runSyncPush(options: RunSyncModeOptions = {}) {
       removePlanned: 0,
       removed: 0,
       failed: [],
+      details: describeGistCreation(localSkills),
       lastSyncAtUpdated: true,
     });
     emitOutput(summary, asJson, formatSyncSummary);
     return summary;
   }
 
-  const plan = buildPushPlan({
+  let plan = buildPushPlan({
     localPayload,
     remotePayload: asPlanPayload(remotePayload),
     nowIso,
@@ -548,17 +1043,35 @@ export async function runSyncPush(options: RunSyncModeOptions = {}) {
       removePlanned: 0,
       removed: 0,
       failed: [],
+      details: describePlan(plan),
       lastSyncAtUpdated: false,
     });
+    summary.planFile = await savePlanIfRequested(options.planOut, {
+      mode: "push",
+      remote: store.url,
+      remoteId,
+      remoteRevision,
+      nowIso,
+      plan,
+    });
     emitOutput(summary, asJson, formatSyncSummary);
     return summary;
   }
 
-  if (plan.uploadPayload) {
-    await updateSkillhubGist(octokit, gistId!, plan.uploadPayload);
-  }
+  plan = await uploadPlanWithConflictRetry({
+    store,
+    remoteId: remoteId!,
+    revision: remoteRevision,
+    plan,
+    rebuildPlan: (latestPayload) =>
+      buildPushPlan({
+        localPayload,
+        remotePayload: latestPayload,
+        nowIso,
+      }),
+  });
 
-  await configStore.setLastSyncAt(nowIso);
+  await recordSuccessfulSync(nowIso, installedSkills);
   const summary = createSummary({
     mode: "push",
     dryRun: false,
@@ -571,6 +1084,7 @@ export async function runSyncPush(options: RunSyncModeOptions = {}) {
     removePlanned: 0,
     removed: 0,
     failed: [],
+    details: describePlan(plan),
     lastSyncAtUpdated: true,
   });
 
@@ -579,10 +1093,9 @@ export async function runSyncPush(options: RunSyncModeOptions = {}) {
 }
 
 export async function runSyncPull(options: RunSyncPullOptions = {}) {
-  const dryRun = options.dryRun === true;
+  const dryRun = options.dryRun === true || Boolean(options.planOut);
   const asJson = options.json === true;
 
-  const token = await ensureToken();
   const nowIso = new Date().toISOString();
   const localSkills = await getLocalSkills();
   const localPayload: SkillhubPayload = {
@@ -590,8 +1103,9 @@ export async function runSyncPull(options: RunSyncPullOptions = {}) {
     updatedAt: nowIso,
   };
 
-  const { gistFound, remotePayload } = await resolveRemoteState(token);
-  if (!gistFound) {
+  const { store, remoteId, remoteFound, remotePayload, remoteRevision } =
+    await resolveRemoteState();
+  if (!remoteFound) {
     throw new Error(
       "Remote SkillHub Gist not found. Run `skillhub sync push` to create it first."
     );
@@ -602,14 +1116,21 @@ export async function runSyncPull(options: RunSyncPullOptions = {}) {
     );
   }
 
-  const plan = buildPullPlan({
+  let plan = buildPullPlan({
     localPayload,
     remotePayload,
   });
-  const { invalidInstallCandidates, validInstallCandidates } =
-    splitInstallCandidates(plan.installCandidates);
 
   if (dryRun) {
+    const { invalidInstallCandidates, validInstallCandidates } = splitInstallCandidates(
+      plan.installCandidates,
+      plan
+    );
+    const { heldBack } = await holdBackUnlessForced(
+      validInstallCandidates,
+      plan.localSkills,
+      options
+    );
     const summary = createSummary({
       mode: "pull",
       dryRun: true,
@@ -621,16 +1142,42 @@ export async function runSyncPull(options: RunSyncPullOptions = {}) {
       installed: 0,
       removePlanned: plan.removeCandidates.length,
       removed: 0,
-      failed: invalidInstallCandidates,
+      failed: [...invalidInstallCandidates, ...heldBack],
+      details: describePlan(plan),
       lastSyncAtUpdated: false,
     });
+    summary.planFile = await savePlanIfRequested(options.planOut, {
+      mode: "pull",
+      remote: store.url,
+      remoteId,
+      remoteRevision,
+      nowIso,
+      plan,
+    });
     emitOutput(summary, asJson, formatSyncSummary);
     return summary;
   }
 
-  await confirmPullRemovalsIfNeeded(plan.removeCandidates, options);
+  let skipped: SkippedOperation[] = [];
+  if (options.interactive) {
+    const selected = applyPlanSelection<PullSyncPlan>(
+      plan,
+      await promptPlanSelection("pull", plan)
+    );
+    plan = selected.plan;
+    skipped = selected.skipped;
+  } else {
+    await confirmPullRemovalsIfNeeded(plan.removeCandidates, options);
+  }
+  const { invalidInstallCandidates, validInstallCandidates } =
+    splitInstallCandidates(plan.installCandidates, plan);
+  const { heldBack, allowed } = await holdBackUnlessForced(
+    validInstallCandidates,
+    plan.localSkills,
+    options
+  );
 
-  const installResult = await installSkills(validInstallCandidates, {
+  const installResult = await installSkills(allowed, {
     verbose: !asJson,
   });
   const removeResult = await removeSkills(plan.removeCandidates, {
@@ -638,6 +1185,7 @@ export async function runSyncPull(options: RunSyncPullOptions = {}) {
   });
   const failed: SyncFailure[] = [
     ...invalidInstallCandidates,
+    ...heldBack,
     ...installResult.failed,
     ...removeResult.failed,
   ];
@@ -654,11 +1202,14 @@ export async function runSyncPull(options: RunSyncPullOptions = {}) {
     removePlanned: plan.removeCandidates.length,
     removed: removeResult.succeeded.length,
     failed,
+    skipped,
+    details: describePlan(plan),
     lastSyncAtUpdated: false,
   });
 
-  if (failed.length === 0) {
-    await configStore.setLastSyncAt(nowIso);
+  // Skipped operations leave local and remote apart, so the base must not advance.
+  if (failed.length === 0 && skipped.length === 0) {
+    await recordSuccessfulSync(nowIso, plan.remoteSkills);
     summary.lastSyncAtUpdated = true;
   }
 
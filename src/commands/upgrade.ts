@@ -0,0 +1,192 @@
+import { holdBackUnlessForced, splitInstallCandidates } from "@/commands/sync";
+import { matchesSkillSelector, skillKey } from "@/core/syncCore";
+import { configStore } from "@/service/config";
+import { SkillInfo } from "@/service/gistService";
+import { createSkillSourceOctokit, isCommitSha, resolveCommitSha } from "@/service/skillRefs";
+import {
+  getLocalSkills,
+  InstallFailure,
+  installSkills,
+  recordInstalledCommits,
+} from "@/service/skillsService";
+import { CliError } from "@/utils/errors";
+import { emitOutput } from "@/utils/output";
+
+const SHORT_SHA_LENGTH = 7;
+
+export type RunUpgradeOptions = {
+  dryRun?: boolean;
+  json?: boolean;
+  // Reinstall skills even when they were edited since skillhub installed them.
+  force?: boolean;
+};
+
+// `upgrade`: upstream moved past the installed commit. `reinstall`: no comparison was
+// possible, so the skill is installed again. `pinned`: a SHA ref never moves.
+export type UpgradeStatus = "upgrade" | "reinstall" | "up-to-date" | "pinned";
+
+type UpgradeEntry = {
+  skill: SkillInfo;
+  status: UpgradeStatus;
+  installedCommit: string | null;
+  latestCommit: string | null;
+};
+
+type UpgradeSummary = {
+  ok: boolean;
+  dryRun: boolean;
+  checked: number;
+  upgraded: number;
+  skills: UpgradeEntry[];
+  failed: InstallFailure[];
+};
+
+function shortSha(commit: string | null) {
+  return commit ? commit.slice(0, SHORT_SHA_LENGTH) : "unknown";
+}
+
+function formatUpgradeEntry(entry: UpgradeEntry) {
+  const label = `${entry.skill.name} (${entry.skill.source})`;
+  switch (entry.status) {
+    case "upgrade":
+      return `  ~ ${label} ${shortSha(entry.installedCommit)} -> ${shortSha(entry.latestCommit)}`;
+    case "reinstall":
+      return `  ~ ${label} ${shortSha(entry.installedCommit)} -> ${shortSha(entry.latestCommit)} (not compared)`;
+    case "pinned":
+      return `  = ${label} pinned at ${shortSha(entry.latestCommit)}`;
+    case "up-to-date":
+      return `  = ${label} ${shortSha(entry.latestCommit)}`;
+  }
+}
+
+function formatUpgradeSummary(summary: UpgradeSummary) {
+  const upToDate = summary.skills.filter((entry) => entry.status === "up-to-date").length;
+  const pinned = summary.skills.filter((entry) => entry.status === "pinned").length;
+  const failurePart =
+    summary.failed.length > 0
+      ? ` (${summary.failed.length} failed - check logs or JSON output)`
+      : "";
+  const actionLine = summary.dryRun
+    ? `Dry-run upgrade: would upgrade ${summary.upgraded} skill(s), ${upToDate} up to date, ${pinned} pinned`
+    : `Upgrade: upgraded ${summary.upgraded} skill(s), ${upToDate} up to date, ${pinned} pinned`;
+
+  return [actionLine + failurePart, ...summary.skills.map(formatUpgradeEntry)].join("\n");
+}
+
+function selectSkills(localSkills: SkillInfo[], names: string[]) {
+  if (names.length === 0) {
+    return localSkills;
+  }
+
+  const missing = names.filter(
+    (name) => !localSkills.some((skill) => matchesSkillSelector(skill, name))
+  );
+  if (missing.length > 0) {
+    throw new CliError(
+      "SKILL_NOT_INSTALLED",
+      `Not installed: ${missing.join(", ")}. Run \`skillhub status\` to see installed skills.`
+    );
+  }
+  return localSkills.filter((skill) =>
+    names.some((name) => matchesSkillSelector(skill, name))
+  );
+}
+
+async function checkSkill(
+  skill: SkillInfo,
+  installedCommit: string | null,
+  lookupLatest: (skill: SkillInfo) => Promise<string>
+): Promise<UpgradeEntry> {
+  if (skill.ref && isCommitSha(skill.ref)) {
+    return { skill, status: "pinned", installedCommit, latestCommit: skill.ref };
+  }
+
+  let latestCommit: string | null = null;
+  try {
+    latestCommit = await lookupLatest(skill);
+  } catch {
+    // Without the upstream commit the skill is still reinstalled, just not compared.
+  }
+
+  if (latestCommit && installedCommit) {
+    return {
+      skill,
+      status: latestCommit === installedCommit ? "up-to-date" : "upgrade",
+      installedCommit,
+      latestCommit,
+    };
+  }
+  return { skill, status: "reinstall", installedCommit, latestCommit };
+}
+
+export async function runUpgrade(names: string[], options: RunUpgradeOptions = {}) {
+  const dryRun = options.dryRun === true;
+  const asJson = options.json === true;
+
+  const localSkills = await getLocalSkills();
+  // Locally authored skills have no upstream to upgrade from.
+  const selected = selectSkills(
+    localSkills.filter((skill) => !skill.embedded),
+    names
+  );
+  const installedCommits = await configStore.getInstalledCommits();
+  const octokit = await createSkillSourceOctokit();
+
+  const entries: UpgradeEntry[] = [];
+  for (const skill of selected) {
+    entries.push(
+      await checkSkill(skill, installedCommits[skillKey(skill)] ?? null, (target) =>
+        resolveCommitSha(octokit, target.source, target.ref)
+      )
+    );
+  }
+
+  const pending = entries.filter(
+    (entry) => entry.status === "upgrade" || entry.status === "reinstall"
+  );
+  const { invalidInstallCandidates, validInstallCandidates } = splitInstallCandidates(
+    pending.map((entry) => entry.skill),
+    { localSkills }
+  );
+  const { heldBack, allowed } = await holdBackUnlessForced(
+    validInstallCandidates,
+    localSkills,
+    options
+  );
+  let failed: InstallFailure[] = [...invalidInstallCandidates, ...heldBack];
+  let upgraded = allowed.length;
+
+  if (!dryRun && allowed.length > 0) {
+    const result = await installSkills(allowed, { verbose: !asJson });
+    failed = [...invalidInstallCandidates, ...heldBack, ...result.failed];
+    upgraded = result.succeeded.length;
+
+    const succeededKeys = new Set(result.succeeded.map(skillKey));
+    await recordInstalledCommits(
+      pending
+        .filter((entry) => succeededKeys.has(skillKey(entry.skill)) && entry.latestCommit)
+        .map((entry) => ({ skill: entry.skill, commit: entry.latestCommit }))
+    );
+  }
+
+  const summary: UpgradeSummary = {
+    ok: failed.length === 0,
+    dryRun,
+    checked: entries.length,
+    upgraded,
+    skills: entries,
+    failed,
+  };
+  emitOutput(summary, asJson, formatUpgradeSummary);
+
+  if (failed.length > 0) {
+    if (asJson) {
+      process.exitCode = 1;
+      return summary;
+    }
+    throw new Error(
+      `Upgrade completed with ${failed.length} failed install(s). Check logs above.`
+    );
+  }
+  return summary;
+}
@@ -0,0 +1,88 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { formatValidationIssues, ValidationIssue } from "@/core/payloadSchema";
+import { SkillhubPayload } from "@/service/gistService";
+import { decodeSkillhubContent } from "@/service/payloadCodec";
+import { openRemoteStore } from "@/service/remoteStore";
+import { isInvalidPayloadError, PayloadValidationError } from "@/utils/errors";
+import { emitOutput } from "@/utils/output";
+
+export type RunValidateOptions = {
+  // Validate this local file instead of the remote payload.
+  file?: string;
+  json?: boolean;
+};
+
+type ValidateSummary = {
+  target: string;
+  valid: boolean;
+  skillCount: number | null;
+  issues: ValidationIssue[];
+};
+
+function formatValidateSummary(summary: ValidateSummary) {
+  if (summary.valid) {
+    return `Valid: ${summary.target} (${summary.skillCount} skill(s))`;
+  }
+  return [
+    `Invalid: ${summary.target}`,
+    ...formatValidationIssues(summary.issues).map((line) => `- ${line}`),
+  ].join("\n");
+}
+
+async function loadPayload(options: RunValidateOptions) {
+  if (options.file) {
+    const target = path.resolve(options.file);
+    const content = await fs.readFile(target, "utf-8");
+    return {
+      target,
+      load: () => decodeSkillhubContent(content),
+      missingMessage: "file is empty",
+    };
+  }
+
+  const store = await openRemoteStore();
+  return {
+    target: store.url,
+    // locate() turns validation errors into a --recreate hint; reading directly keeps the issues.
+    load: async () => {
+      const location = await store.locate({ recreate: true, readOnly: true });
+      return location.id === null ? null : (await store.read(location.id)).payload;
+    },
+    missingMessage: "no remote skillhub.json payload found",
+  };
+}
+
+export async function runValidate(options: RunValidateOptions = {}) {
+  const { target, load, missingMessage } = await loadPayload(options);
+
+  let payload: SkillhubPayload | null = null;
+  let issues: ValidationIssue[] = [];
+  try {
+    payload = await load();
+    if (!payload) {
+      issues = [{ path: "$", message: missingMessage }];
+    }
+  } catch (error) {
+    if (error instanceof PayloadValidationError) {
+      issues = error.issues;
+    } else if (isInvalidPayloadError(error)) {
+      issues = [{ path: "$", message: (error as Error).message }];
+    } else {
+      throw error;
+    }
+  }
+
+  const summary: ValidateSummary = {
+    target,
+    valid: issues.length === 0,
+    skillCount: payload ? payload.skills.length : null,
+    issues,
+  };
+
+  emitOutput(summary, options.json === true, formatValidateSummary);
+  if (!summary.valid) {
+    process.exitCode = 1;
+  }
+  return summary;
+}
@@ -0,0 +1,82 @@
+import { matchesSkillSelector } from "@/core/syncCore";
+import {
+  checkSkillIntegrity,
+  listTrackedSkills,
+  SkillIntegrity,
+  SkillIntegrityState,
+} from "@/service/skillChecksums";
+import { getLocalSkills } from "@/service/skillsService";
+import { CliError } from "@/utils/errors";
+import { emitOutput } from "@/utils/output";
+
+export type RunVerifyOptions = {
+  json?: boolean;
+};
+
+type VerifySummary = {
+  // False when any skill is modified or missing.
+  ok: boolean;
+  counts: Record<SkillIntegrityState, number>;
+  skills: SkillIntegrity[];
+};
+
+const STATE_MARKERS: Record<SkillIntegrityState, string> = {
+  unmodified: "=",
+  modified: "~",
+  missing: "-",
+  unknown: "?",
+};
+
+function formatVerifySummary(summary: VerifySummary) {
+  const { counts } = summary;
+  return [
+    `Verify: ${counts.unmodified} unmodified, ${counts.modified} modified, ${counts.missing} missing, ${counts.unknown} unknown`,
+    ...summary.skills.map(
+      (result) =>
+        `  ${STATE_MARKERS[result.state]} ${result.skill.name} (${result.skill.source}) ${result.state}${
+          result.path ? ` ${result.path}` : ""
+        }`
+    ),
+  ].join("\n");
+}
+
+// Compares installed skill folders with the hashes recorded when skillhub installed them.
+export async function runVerify(names: string[], options: RunVerifyOptions = {}) {
+  const tracked = await listTrackedSkills(await getLocalSkills());
+  const missingNames = names.filter(
+    (name) => !tracked.some((skill) => matchesSkillSelector(skill, name))
+  );
+  if (missingNames.length > 0) {
+    throw new CliError(
+      "SKILL_NOT_INSTALLED",
+      `Not installed: ${missingNames.join(", ")}. Run \`skillhub status\` to see installed skills.`
+    );
+  }
+
+  const selected =
+    names.length === 0
+      ? tracked
+      : tracked.filter((skill) => names.some((name) => matchesSkillSelector(skill, name)));
+  const skills = await checkSkillIntegrity(selected);
+
+  const counts: Record<SkillIntegrityState, number> = {
+    unmodified: 0,
+    modified: 0,
+    missing: 0,
+    unknown: 0,
+  };
+  for (const result of skills) {
+    counts[result.state] += 1;
+  }
+
+  const summary: VerifySummary = {
+    ok: counts.modified === 0 && counts.missing === 0,
+    counts,
+    skills,
+  };
+  emitOutput(summary, options.json === true, formatVerifySummary);
+  if (!summary.ok) {
+    process.exitCode = 1;
+  }
+  return summary;
+}
@@ -0,0 +1,255 @@
+import type { SkillhubPayload } from "@/service/gistService";
+
+export const CURRENT_SCHEMA_VERSION = 4;
+// Source of skills authored locally and uploaded with their files instead of installed from a repo.
+export const EMBEDDED_SKILL_SOURCE = "local";
+const DEFAULT_SKILL_SOURCE_REPO = "vercel-labs/agent-skills";
+const SOURCE_PATTERN = /^[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+$/;
+const REF_PATTERN = /^[^\s~^:?*[\\]+$/;
+const HASH_PATTERN = /^sha256:[0-9a-f]{64}$/;
+// Embedded skills are written to a folder of this name.
+const EMBEDDED_NAME_PATTERN = /^(?!\.)[A-Za-z0-9._-]+$/;
+
+export type ValidationIssue = {
+  // JSONPath-like location, e.g. `$.skills[2].source`.
+  path: string;
+  message: string;
+};
+
+export type PayloadParseResult =
+  | { ok: true; payload: SkillhubPayload; migratedFrom: number | null }
+  | { ok: false; issues: ValidationIssue[] };
+
+type RawPayload = Record<string, unknown>;
+
+// Each entry upgrades a payload from version N to N + 1.
+const MIGRATIONS: Record<number, (payload: RawPayload) => RawPayload> = {
+  // v0: legacy `skills: string[]` with every skill implicitly from the default repo.
+  0: (payload) => ({
+    ...payload,
+    skills: Array.isArray(payload.skills)
+      ? payload.skills.map((skill) =>
+          typeof skill === "string"
+            ? { name: skill, source: DEFAULT_SKILL_SOURCE_REPO }
+            : skill
+        )
+      : payload.skills,
+  }),
+  // v1: `{ name, source }` objects without an explicit schema version.
+  1: (payload) => ({ ...payload, schemaVersion: 2 }),
+  // v2: skills gain an optional `ref`; bumped so older clients refuse instead of dropping refs.
+  2: (payload) => ({ ...payload, schemaVersion: 3 }),
+  // v3: adds embedded skills (`source: "local"` with their files).
+  3: (payload) => ({ ...payload, schemaVersion: 4 }),
+};
+
+function isRecord(value: unknown): value is RawPayload {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isValidEmbeddedName(name: string) {
+  return EMBEDDED_NAME_PATTERN.test(name);
+}
+
+// A relative `/`-separated path that stays inside the skill folder.
+export function isSafeEmbeddedPath(filePath: string) {
+  if (!filePath || filePath.startsWith("/") || filePath.includes("\\")) {
+    return false;
+  }
+  return filePath
+    .split("/")
+    .every((segment) => segment !== "" && segment !== "." && segment !== "..");
+}
+
+function validateEmbeddedSkill(
+  skill: RawPayload,
+  path: string,
+  issues: ValidationIssue[]
+) {
+  const { embedded } = skill;
+  if (typeof skill.name === "string" && !isValidEmbeddedName(skill.name)) {
+    issues.push({
+      path: `${path}.name`,
+      message: "must be a folder name (letters, digits, '.', '_' or '-') for embedded skills",
+    });
+  }
+  if (skill.ref !== undefined) {
+    issues.push({ path: `${path}.ref`, message: "is not allowed for embedded skills" });
+  }
+  if (!isRecord(embedded)) {
+    issues.push({ path: `${path}.embedded`, message: "must be an object with hash and files" });
+    return;
+  }
+  if (typeof embedded.hash !== "string" || !HASH_PATTERN.test(embedded.hash)) {
+    issues.push({ path: `${path}.embedded.hash`, message: "must be sha256:<64 hex digits>" });
+  }
+  if (!Array.isArray(embedded.files)) {
+    issues.push({ path: `${path}.embedded.files`, message: "must be an array" });
+    return;
+  }
+
+  const seenPaths = new Set<string>();
+  embedded.files.forEach((file: unknown, index: number) => {
+    const filePath = `${path}.embedded.files[${index}]`;
+    if (!isRecord(file)) {
+      issues.push({ path: filePath, message: "must be an object with path, encoding and content" });
+      return;
+    }
+    if (typeof file.path !== "string" || !isSafeEmbeddedPath(file.path)) {
+      issues.push({
+        path: `${filePath}.path`,
+        message: "must be a relative path inside the skill folder",
+      });
+    } else if (seenPaths.has(file.path)) {
+      issues.push({ path: `${filePath}.path`, message: `duplicates "${file.path}"` });
+    } else {
+      seenPaths.add(file.path);
+    }
+    if (file.encoding !== "utf8" && file.encoding !== "base64") {
+      issues.push({ path: `${filePath}.encoding`, message: 'must be "utf8" or "base64"' });
+    }
+    if (typeof file.content !== "string") {
+      issues.push({ path: `${filePath}.content`, message: "must be a string" });
+    }
+  });
+}
+
+export function detectSchemaVersion(payload: RawPayload) {
+  if (payload.schemaVersion !== undefined) {
+    return payload.schemaVersion;
+  }
+  if (Array.isArray(payload.skills) && payload.skills.some((skill) => typeof skill === "string")) {
+    return 0;
+  }
+  return 1;
+}
+
+export function migratePayload(payload: RawPayload) {
+  const fromVersion = detectSchemaVersion(payload);
+  if (typeof fromVersion !== "number" || !Number.isInteger(fromVersion)) {
+    return { payload, migratedFrom: null };
+  }
+
+  let current = payload;
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version += 1) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      break;
+    }
+    current = migrate(current);
+  }
+  return {
+    payload: current,
+    migratedFrom: fromVersion < CURRENT_SCHEMA_VERSION ? fromVersion : null,
+  };
+}
+
+// Validates a payload in the current schema; returns every problem rather than the first.
+export function validateSkillhubPayload(value: unknown): ValidationIssue[] {
+  if (!isRecord(value)) {
+    return [{ path: "$", message: "must be a JSON object" }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const { schemaVersion } = value;
+  if (typeof schemaVersion !== "number" || !Number.isInteger(schemaVersion)) {
+    issues.push({ path: "$.schemaVersion", message: "must be an integer" });
+  } else if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    issues.push({
+      path: "$.schemaVersion",
+      message: `version ${schemaVersion} is newer than supported version ${CURRENT_SCHEMA_VERSION}; upgrade skillhub`,
+    });
+  } else if (schemaVersion !== CURRENT_SCHEMA_VERSION) {
+    issues.push({
+      path: "$.schemaVersion",
+      message: `must be ${CURRENT_SCHEMA_VERSION}`,
+    });
+  }
+
+  if (typeof value.updatedAt !== "string") {
+    issues.push({ path: "$.updatedAt", message: "must be a string" });
+  } else if (!Number.isFinite(Date.parse(value.updatedAt))) {
+    issues.push({ path: "$.updatedAt", message: "must be an ISO 8601 timestamp" });
+  }
+
+  if (!Array.isArray(value.skills)) {
+    issues.push({ path: "$.skills", message: "must be an array" });
+    return issues;
+  }
+
+  const seen = new Map<string, number>();
+  value.skills.forEach((skill: unknown, index: number) => {
+    const path = `$.skills[${index}]`;
+    if (!isRecord(skill)) {
+      issues.push({ path, message: "must be an object with name and source" });
+      return;
+    }
+
+    const nameValid = typeof skill.name === "string" && skill.name.trim().length > 0;
+    if (!nameValid) {
+      issues.push({ path: `${path}.name`, message: "must be a non-empty string" });
+    }
+    const isEmbedded = skill.source === EMBEDDED_SKILL_SOURCE;
+    const sourceValid =
+      isEmbedded || (typeof skill.source === "string" && SOURCE_PATTERN.test(skill.source));
+    if (isEmbedded) {
+      validateEmbeddedSkill(skill, path, issues);
+    } else if (skill.embedded !== undefined) {
+      issues.push({
+        path: `${path}.source`,
+        message: `must be "${EMBEDDED_SKILL_SOURCE}" for embedded skills`,
+      });
+    }
+    if (!sourceValid) {
+      issues.push({
+        path: `${path}.source`,
+        message:
+          skill.source === undefined
+            ? "is required (owner/repo)"
+            : "must be in owner/repo format",
+      });
+    }
+
+    if (
+      skill.ref !== undefined &&
+      (typeof skill.ref !== "string" || !REF_PATTERN.test(skill.ref))
+    ) {
+      issues.push({
+        path: `${path}.ref`,
+        message: "must be a branch, tag or commit SHA without whitespace",
+      });
+    }
+
+    if (nameValid && sourceValid) {
+      const key = `${skill.source}:${skill.name}`;
+      const firstIndex = seen.get(key);
+      if (firstIndex !== undefined) {
+        issues.push({
+          path,
+          message: `duplicates $.skills[${firstIndex}] (${skill.name} from ${skill.source})`,
+        });
+      } else {
+        seen.set(key, index);
+      }
+    }
+  });
+
+  return issues;
+}
+
+export function parseSkillhubPayload(value: unknown): PayloadParseResult {
+  if (!isRecord(value)) {
+    return { ok: false, issues: [{ path: "$", message: "must be a JSON object" }] };
+  }
+
+  const { payload, migratedFrom } = migratePayload(value);
+  const issues = validateSkillhubPayload(payload);
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+  return { ok: true, payload: payload as SkillhubPayload, migratedFrom };
+}
+
+export function formatValidationIssues(issues: ValidationIssue[]) {
+  return issues.map((issue) => `${issue.path}: ${issue.message}`);
+}
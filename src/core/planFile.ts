@@ -0,0 +1,127 @@
+import { SyncMode } from "@/core/syncCore";
+import { SkillhubPayload, SkillInfo } from "@/service/gistService";
+import { CliError } from "@/utils/errors";
+
+export const SAVED_PLAN_VERSION = 1;
+const SAVED_PLAN_MODES: SyncMode[] = ["pull", "push", "merge", "auto"];
+
+export type SavedSyncPlan = {
+  version: typeof SAVED_PLAN_VERSION;
+  mode: SyncMode;
+  createdAt: string;
+  // Remote URL the plan was computed against (`gist`, `file:///path`, ...).
+  remote: string;
+  // Gist id or other backend location; null when the plan creates the remote.
+  remoteId: string | null;
+  remoteRevision: string | null;
+  localSkills: SkillInfo[];
+  remoteSkills: SkillInfo[];
+  installCandidates: SkillInfo[];
+  removeCandidates: SkillInfo[];
+  uploadPayload: SkillhubPayload | null;
+};
+
+function invalidPlan(message: string): never {
+  throw new CliError("INVALID_PLAN_FILE", `Invalid plan file: ${message}`);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readSkillList(value: unknown, field: string): SkillInfo[] {
+  if (!Array.isArray(value)) {
+    invalidPlan(`"${field}" must be an array.`);
+  }
+
+  return value.map((item, index) => {
+    if (
+      !isObject(item) ||
+      typeof item.name !== "string" ||
+      typeof item.source !== "string"
+    ) {
+      invalidPlan(`"${field}[${index}]" must have string "name" and "source".`);
+    }
+    if (item.ref !== undefined && typeof item.ref !== "string") {
+      invalidPlan(`"${field}[${index}].ref" must be a string.`);
+    }
+    if (
+      item.embedded !== undefined &&
+      (!isObject(item.embedded) || typeof item.embedded.hash !== "string")
+    ) {
+      invalidPlan(`"${field}[${index}].embedded" must be an object with a string "hash".`);
+    }
+    return {
+      name: item.name,
+      source: item.source,
+      ...(item.ref ? { ref: item.ref } : {}),
+      ...(item.embedded ? { embedded: item.embedded as SkillInfo["embedded"] } : {}),
+    };
+  });
+}
+
+function readNullableString(value: unknown, field: string) {
+  if (value !== null && typeof value !== "string") {
+    invalidPlan(`"${field}" must be a string or null.`);
+  }
+  return value;
+}
+
+export function serializeSavedPlan(plan: SavedSyncPlan) {
+  return `${JSON.stringify(plan, null, 2)}\n`;
+}
+
+export function parseSavedPlan(raw: string): SavedSyncPlan {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    invalidPlan("not valid JSON.");
+  }
+
+  if (!isObject(parsed)) {
+    invalidPlan("expected a JSON object.");
+  }
+  if (parsed.version !== SAVED_PLAN_VERSION) {
+    invalidPlan(
+      `unsupported version ${String(parsed.version)} (expected ${SAVED_PLAN_VERSION}).`
+    );
+  }
+  if (!SAVED_PLAN_MODES.includes(parsed.mode as SyncMode)) {
+    invalidPlan(`"mode" must be one of: ${SAVED_PLAN_MODES.join(", ")}.`);
+  }
+  if (typeof parsed.createdAt !== "string") {
+    invalidPlan('"createdAt" must be a string.');
+  }
+  if (typeof parsed.remote !== "string") {
+    invalidPlan('"remote" must be a string.');
+  }
+
+  let uploadPayload: SkillhubPayload | null = null;
+  if (parsed.uploadPayload !== null) {
+    if (
+      !isObject(parsed.uploadPayload) ||
+      typeof parsed.uploadPayload.updatedAt !== "string"
+    ) {
+      invalidPlan('"uploadPayload" must be null or an object with "updatedAt".');
+    }
+    uploadPayload = {
+      skills: readSkillList(parsed.uploadPayload.skills, "uploadPayload.skills"),
+      updatedAt: parsed.uploadPayload.updatedAt,
+    };
+  }
+
+  return {
+    version: SAVED_PLAN_VERSION,
+    mode: parsed.mode as SyncMode,
+    createdAt: parsed.createdAt,
+    remote: parsed.remote,
+    remoteId: readNullableString(parsed.remoteId, "remoteId"),
+    remoteRevision: readNullableString(parsed.remoteRevision, "remoteRevision"),
+    localSkills: readSkillList(parsed.localSkills, "localSkills"),
+    remoteSkills: readSkillList(parsed.remoteSkills, "remoteSkills"),
+    installCandidates: readSkillList(parsed.installCandidates, "installCandidates"),
+    removeCandidates: readSkillList(parsed.removeCandidates, "removeCandidates"),
+    uploadPayload,
+  };
+}
@@ -8,12 +8,40 @@ const BANNED_SKILL_NAME_SUBSTRINGS = [
   "Try listing global skills",
 ];
 
+export type SyncMode = "pull" | "push" | "merge" | "auto";
+
+// Per-side changes relative to the last successfully synced skill set (base).
+export type ThreeWayChanges = {
+  localAdded: SkillInfo[];
+  localRemoved: SkillInfo[];
+  remoteAdded: SkillInfo[];
+  remoteRemoved: SkillInfo[];
+  bothAdded: SkillInfo[];
+  bothRemoved: SkillInfo[];
+  // Present on both sides with a different `ref` or embedded hash; holds the winning version.
+  localRefChanged: SkillInfo[];
+  remoteRefChanged: SkillInfo[];
+};
+
+export type ThreeWayPlan = {
+  localSkills: SkillInfo[];
+  remoteSkills: SkillInfo[];
+  baseSkills: SkillInfo[];
+  resultSkills: SkillInfo[];
+  changes: ThreeWayChanges;
+  installCandidates: SkillInfo[];
+  removeCandidates: SkillInfo[];
+  uploadPayload: SkillhubPayload | null;
+};
+
 export type MergeSyncPlan = {
   mode: "merge";
   localSkills: SkillInfo[];
   remoteSkills: SkillInfo[];
   installCandidates: SkillInfo[];
+  removeCandidates: SkillInfo[];
   uploadPayload: SkillhubPayload | null;
+  changes: ThreeWayChanges;
 };
 
 export type AutoSyncPlan = {
@@ -21,8 +49,16 @@ export type AutoSyncPlan = {
   localSkills: SkillInfo[];
   remoteSkills: SkillInfo[];
   installCandidates: SkillInfo[];
+  removeCandidates: SkillInfo[];
   uploadPayload: SkillhubPayload | null;
   isRemoteNewer: boolean;
+  changes: ThreeWayChanges | null;
+};
+
+// Skills that share a name but come from different sources; they install to the same directory.
+export type SkillCollision = {
+  name: string;
+  sources: string[];
 };
 
 export type PullSyncPlan = {
@@ -55,9 +91,13 @@ export function normalizeSkills(skills: SkillInfo[] | string[]): SkillInfo[] {
       if (typeof skill === "string") {
         return { name: skill, source: DEFAULT_SKILL_SOURCE_REPO };
       }
+      const ref = typeof skill?.ref === "string" ? skill.ref.trim() : "";
+      const embedded = typeof skill?.embedded?.hash === "string" ? skill.embedded : null;
       return {
         name: String(skill?.name ?? ""),
         source: String(skill?.source ?? DEFAULT_SKILL_SOURCE_REPO),
+        ...(ref ? { ref } : {}),
+        ...(embedded ? { embedded } : {}),
       };
     })
     .filter(
@@ -89,6 +129,61 @@ export function uniqueSortedSkills(skills: SkillInfo[]): SkillInfo[] {
   });
 }
 
+export function skillKey(skill: SkillInfo) {
+  return `${skill.source}:${skill.name}`;
+}
+
+// `owner/repo:name` selects one source; a bare `name` matches every source.
+export function parseSkillSelector(selector: string) {
+  const separator = selector.indexOf(":");
+  if (separator === -1) {
+    return { name: selector, source: undefined };
+  }
+  return {
+    name: selector.slice(separator + 1),
+    source: selector.slice(0, separator),
+  };
+}
+
+export function matchesSkillSelector(skill: SkillInfo, selector: string) {
+  const { name, source } = parseSkillSelector(selector);
+  return skill.name === name && (source === undefined || skill.source === source);
+}
+
+export function findNameCollisions(skills: SkillInfo[]): SkillCollision[] {
+  const sourcesByName = new Map<string, Set<string>>();
+  for (const skill of skills) {
+    const sources = sourcesByName.get(skill.name) ?? new Set<string>();
+    sources.add(skill.source);
+    sourcesByName.set(skill.name, sources);
+  }
+
+  return [...sourcesByName.entries()]
+    .filter(([, sources]) => sources.size > 1)
+    .map(([name, sources]) => ({ name, sources: [...sources].sort() }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Skills without a ref follow the source repo's default branch.
+export function isSameRef(left: SkillInfo, right: SkillInfo) {
+  return (left.ref ?? null) === (right.ref ?? null);
+}
+
+// Same ref, and for embedded skills the same file contents.
+export function isSameVersion(left: SkillInfo, right: SkillInfo) {
+  return (
+    isSameRef(left, right) &&
+    (left.embedded?.hash ?? null) === (right.embedded?.hash ?? null)
+  );
+}
+
+// Drops embedded file contents, keeping the hash, for state that only compares versions.
+export function withoutEmbeddedFiles(skills: SkillInfo[]): SkillInfo[] {
+  return skills.map((skill) =>
+    skill.embedded ? { ...skill, embedded: { hash: skill.embedded.hash } } : skill
+  );
+}
+
 export function areSameSkills(left: SkillInfo[], right: SkillInfo[]) {
   const leftSorted = uniqueSortedSkills(left);
   const rightSorted = uniqueSortedSkills(right);
@@ -100,43 +195,149 @@ export function areSameSkills(left: SkillInfo[], right: SkillInfo[]) {
   return leftSorted.every(
     (skill, index) =>
       skill.name === rightSorted[index].name &&
-      skill.source === rightSorted[index].source
+      skill.source === rightSorted[index].source &&
+      isSameVersion(skill, rightSorted[index])
   );
 }
 
-export function buildMergePlan(params: {
+// Skills only in `next` or `previous`, plus those in both whose version changed (`next` version).
+export function diffSkills(next: SkillInfo[], previous: SkillInfo[]) {
+  const nextKeys = new Set(next.map(skillKey));
+  const previousByKey = new Map(previous.map((skill) => [skillKey(skill), skill]));
+
+  return {
+    added: next.filter((skill) => !previousByKey.has(skillKey(skill))),
+    removed: previous.filter((skill) => !nextKeys.has(skillKey(skill))),
+    updated: next.filter((skill) => {
+      const before = previousByKey.get(skillKey(skill));
+      return before !== undefined && !isSameVersion(skill, before);
+    }),
+  };
+}
+
+export function buildThreeWayPlan(params: {
   localPayload: SkillhubPayload;
   remotePayload: SkillhubPayload;
+  baseSkills?: SkillInfo[] | null;
   nowIso: string;
-}): MergeSyncPlan {
+}): ThreeWayPlan {
   const localSkills = normalizeSkills(params.localPayload.skills);
   const remoteSkills = normalizeSkills(params.remotePayload.skills);
-  const unionSkills = uniqueSortedSkills([...localSkills, ...remoteSkills]);
-  const installCandidates = unionSkills.filter(
-    (skill) =>
-      !localSkills.some(
-        (local) => local.name === skill.name && local.source === skill.source
-      )
-  );
-  const uploadPayload = areSameSkills(remoteSkills, unionSkills)
+  // Without a base every skill counts as an addition, which degrades to a union.
+  const baseSkills = normalizeSkills(params.baseSkills ?? []);
+
+  const localByKey = new Map(localSkills.map((skill) => [skillKey(skill), skill]));
+  const remoteByKey = new Map(remoteSkills.map((skill) => [skillKey(skill), skill]));
+  const baseByKey = new Map(baseSkills.map((skill) => [skillKey(skill), skill]));
+
+  const changes: ThreeWayChanges = {
+    localAdded: [],
+    localRemoved: [],
+    remoteAdded: [],
+    remoteRemoved: [],
+    bothAdded: [],
+    bothRemoved: [],
+    localRefChanged: [],
+    remoteRefChanged: [],
+  };
+  const resultSkills: SkillInfo[] = [];
+
+  const allSkills = uniqueSortedSkills([
+    ...baseSkills,
+    ...localSkills,
+    ...remoteSkills,
+  ]);
+
+  for (const skill of allSkills) {
+    const key = skillKey(skill);
+    const local = localByKey.get(key);
+    const remote = remoteByKey.get(key);
+    const base = baseByKey.get(key);
+
+    if (local && remote) {
+      if (isSameVersion(local, remote)) {
+        if (!base) {
+          changes.bothAdded.push(local);
+        }
+        resultSkills.push(local);
+      } else if (base && isSameVersion(local, base)) {
+        // Only the remote moved the ref or edited the files: install that version locally.
+        changes.remoteRefChanged.push(remote);
+        resultSkills.push(remote);
+      } else {
+        // The local version wins when it changed, including when both sides changed it.
+        changes.localRefChanged.push(local);
+        resultSkills.push(local);
+      }
+      continue;
+    }
+
+    if (base) {
+      if (remote) {
+        changes.localRemoved.push(remote);
+      } else if (local) {
+        changes.remoteRemoved.push(local);
+      } else {
+        changes.bothRemoved.push(base);
+      }
+      continue;
+    }
+
+    if (local) {
+      changes.localAdded.push(local);
+      resultSkills.push(local);
+    } else if (remote) {
+      changes.remoteAdded.push(remote);
+      resultSkills.push(remote);
+    }
+  }
+
+  const sortedResult = uniqueSortedSkills(resultSkills);
+  const uploadPayload = areSameSkills(remoteSkills, sortedResult)
     ? null
     : {
-        skills: unionSkills,
+        skills: sortedResult,
         updatedAt: params.nowIso,
       };
 
   return {
-    mode: "merge",
     localSkills,
     remoteSkills,
-    installCandidates,
+    baseSkills,
+    resultSkills: sortedResult,
+    changes,
+    installCandidates: uniqueSortedSkills([
+      ...changes.remoteAdded,
+      ...changes.remoteRefChanged,
+    ]),
+    removeCandidates: changes.remoteRemoved,
     uploadPayload,
   };
 }
 
+export function buildMergePlan(params: {
+  localPayload: SkillhubPayload;
+  remotePayload: SkillhubPayload;
+  baseSkills?: SkillInfo[] | null;
+  nowIso: string;
+}): MergeSyncPlan {
+  const plan = buildThreeWayPlan(params);
+
+  return {
+    mode: "merge",
+    localSkills: plan.localSkills,
+    remoteSkills: plan.remoteSkills,
+    installCandidates: plan.installCandidates,
+    removeCandidates: plan.removeCandidates,
+    uploadPayload: plan.uploadPayload,
+    changes: plan.changes,
+  };
+}
+
 export function buildAutoPlan(params: {
   localPayload: SkillhubPayload;
   remotePayload: SkillhubPayload;
+  baseSkills?: SkillInfo[] | null;
   lastSyncAt?: string;
   nowIso: string;
 }): AutoSyncPlan {
@@ -146,21 +347,36 @@ export function buildAutoPlan(params: {
   const remoteTime = parseTimestamp(params.remotePayload.updatedAt);
   const isRemoteNewer = remoteTime !== null && remoteTime > lastSyncTime;
 
+  // With a stored base, both sides' additions and removals can be reconciled.
+  if (params.baseSkills) {
+    const plan = buildThreeWayPlan(params);
+    return {
+      mode: "auto",
+      localSkills: plan.localSkills,
+      remoteSkills: plan.remoteSkills,
+      installCandidates: plan.installCandidates,
+      removeCandidates: plan.removeCandidates,
+      uploadPayload: plan.uploadPayload,
+      isRemoteNewer,
+      changes: plan.changes,
+    };
+  }
+
   if (isRemoteNewer) {
-    const installCandidates = remoteSkills.filter(
-      (skill) =>
-        !localSkills.some(
-          (local) => local.name === skill.name && local.source === skill.source
-        )
-    );
+    const installCandidates = diffSkills(remoteSkills, localSkills);
 
     return {
       mode: "auto",
       localSkills,
       remoteSkills,
-      installCandidates,
+      installCandidates: uniqueSortedSkills([
+        ...installCandidates.added,
+        ...installCandidates.updated,
+      ]),
+      removeCandidates: [],
       uploadPayload: null,
       isRemoteNewer,
+      changes: null,
     };
   }
 
@@ -168,16 +384,18 @@ export function buildAutoPlan(params: {
     ? null
     : {
         skills: localSkills,
-      updatedAt: params.nowIso,
-    };
+        updatedAt: params.nowIso,
+      };
 
   return {
     mode: "auto",
     localSkills,
     remoteSkills,
     installCandidates: [],
+    removeCandidates: [],
     uploadPayload,
     isRemoteNewer,
+    changes: null,
   };
 }
 
@@ -188,27 +406,15 @@ export function buildPullPlan(params: {
   const localSkills = normalizeSkills(params.localPayload.skills);
   const remoteSkills = normalizeSkills(params.remotePayload.skills);
 
-  const installCandidates = remoteSkills.filter(
-    (remote) =>
-      !localSkills.some(
-        (local) =>
-          local.name === remote.name && local.source === remote.source
-      )
-  );
-  const removeCandidates = localSkills.filter(
-    (local) =>
-      !remoteSkills.some(
-        (remote) =>
-          remote.name === local.name && remote.source === local.source
-      )
-  );
+  // A ref change reinstalls the skill at the remote's ref.
+  const diff = diffSkills(remoteSkills, localSkills);
 
   return {
     mode: "pull",
     localSkills,
     remoteSkills,
-    installCandidates,
-    removeCandidates,
+    installCandidates: uniqueSortedSkills([...diff.added, ...diff.updated]),
+    removeCandidates: diff.removed,
   };
 }
 
@@ -1,13 +1,34 @@
 import { Command } from "commander";
+import { runApply } from "@/commands/apply";
+import { runGistAdopt, runGistCreate, runGistList, runGistUse } from "@/commands/gist";
+import { runHistory } from "@/commands/history";
 import { runLogin } from "@/commands/login";
 import { runLogout } from "@/commands/logout";
+import { runMigrateToken } from "@/commands/migrateToken";
+import { runPin, runUnpin } from "@/commands/pin";
+import {
+  runProfileCreate,
+  runProfileDelete,
+  runProfileList,
+  runProfileUse,
+} from "@/commands/profile";
+import { runRemoteEncryption, runRemoteSet, runRemoteShow } from "@/commands/remote";
+import { runRestore } from "@/commands/restore";
+import { runRootsReset, runRootsSet, runRootsShow } from "@/commands/roots";
 import { runStatus } from "@/commands/status";
+import { runUpgrade } from "@/commands/upgrade";
+import { runValidate } from "@/commands/validate";
+import { runVerify } from "@/commands/verify";
 import {
   runSyncAuto,
   runSyncMerge,
   runSyncPull,
   runSyncPush,
 } from "@/commands/sync";
+import { configStore } from "@/service/config";
+import { setRemoteOverride } from "@/service/remoteStore";
+import { setInventorySourceOverride } from "@/service/skillsService";
+import { getErrorCode } from "@/utils/errors";
 
 function getPackageVersion() {
   try {
@@ -22,6 +43,15 @@ function errorMessage(error: unknown) {
   return error instanceof Error ? error.message : String(error);
 }
 
+function parseInteger(value: string) {
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`Expected an integer, got "${value}".`);
+  }
+  return parsed;
+}
+
+// JSON errors keep `error` a plain message; the optional `code` sits next to it.
 function withJsonErrorHandling<T extends { json?: boolean }>(
   action: (options: T) => Promise<void>
 ) {
@@ -30,11 +60,13 @@ function withJsonErrorHandling<T extends { json?: boolean }>(
       await action(options);
     } catch (error) {
       if (options.json) {
+        const code = getErrorCode(error);
         console.log(
           JSON.stringify(
             {
               ok: false,
               error: errorMessage(error),
+              ...(code ? { code } : {}),
             },
             null,
             2
@@ -48,18 +80,100 @@ function withJsonErrorHandling<T extends { json?: boolean }>(
   };
 }
 
+type SyncCommandOptions = {
+  dryRun?: boolean;
+  planOut?: string;
+  recreate?: boolean;
+  resolveRefs?: boolean;
+  yes?: boolean;
+  interactive?: boolean;
+  force?: boolean;
+  json?: boolean;
+};
+
+type UpgradeCommandOptions = {
+  dryRun?: boolean;
+  force?: boolean;
+  json?: boolean;
+};
+
+type RestoreCommandOptions = {
+  target?: string;
+  dryRun?: boolean;
+  yes?: boolean;
+  recreate?: boolean;
+  force?: boolean;
+  json?: boolean;
+};
+
 const program = new Command();
 
-program.name("skillhub").description("SkillHub CLI").version(getPackageVersion());
+program
+  .name("skillhub")
+  .description("SkillHub CLI")
+  .version(getPackageVersion())
+  .option(
+    "--profile <name>",
+    "profile to use for this command (default: SKILLHUB_PROFILE or the active profile)"
+  )
+  .option(
+    "--remote <url>",
+    "remote backend for this command: gist, file:///path or git+<repository> (default: profile setting)"
+  )
+  .option(
+    "--inventory-source <source>",
+    "how to list installed skills: auto, json, lock, scan or text (default: SKILLHUB_INVENTORY_SOURCE or auto)"
+  );
+
+// Commands that may write to a profile that does not exist yet.
+const PROFILE_CREATING_COMMANDS = ["auth login", "profile create"];
+
+program.hook("preAction", async (_program, actionCommand) => {
+  const globalOptions = program.opts<{
+    profile?: string;
+    remote?: string;
+    inventorySource?: string;
+  }>();
+  configStore.setProfileOverride(globalOptions.profile);
+  setRemoteOverride(globalOptions.remote);
+  setInventorySourceOverride(globalOptions.inventorySource);
+
+  const commandPath = `${actionCommand.parent?.name()} ${actionCommand.name()}`;
+  if (!PROFILE_CREATING_COMMANDS.includes(commandPath)) {
+    await configStore.assertProfileExists();
+  }
+});
 
 const authCommand = program.command("auth").description("Authentication commands");
 
 authCommand
   .command("login")
-  .description("Register your GitHub PAT with gist access")
-  .action(async () => {
-    await runLogin();
-  });
+  .description("Register a GitHub token with gist access (PAT or --web device flow)")
+  .option(
+    "--hostname <host>",
+    "GitHub Enterprise Server hostname or API URL (default: github.com)"
+  )
+  .option("--web", "log in through the browser with the OAuth device flow", false)
+  .option(
+    "--client-id <id>",
+    "OAuth app client id for --web (default: SKILLHUB_OAUTH_CLIENT_ID)"
+  )
+  .option("--with-token", "read the token from stdin instead of prompting", false)
+  .action(
+    async (options: {
+      hostname?: string;
+      web?: boolean;
+      clientId?: string;
+      withToken?: boolean;
+    }) => {
+      await runLogin({
+        hostname: options.hostname,
+        web: options.web,
+        clientId: options.clientId,
+        withToken: options.withToken,
+      });
+    }
+  );
 
 authCommand
   .command("status")
@@ -71,9 +185,27 @@ authCommand
     })
   );
 
+authCommand
+  .command("migrate-token")
+  .description("Encrypt the stored token with a passphrase, or decrypt it back")
+  .option("--encrypt", "encrypt the stored token", false)
+  .option("--decrypt", "store the token in plaintext again", false)
+  .option("--json", "print output as JSON", false)
+  .action(
+    withJsonErrorHandling(
+      async (options: { encrypt?: boolean; decrypt?: boolean; json?: boolean }) => {
+        await runMigrateToken({
+          encrypt: options.encrypt,
+          decrypt: options.decrypt,
+          json: options.json,
+        });
+      }
+    )
+  );
+
 authCommand
   .command("logout")
-  .description("Clear stored session data (token, gist id, last sync)")
+  .description("Clear stored session data (token, gist id, last sync, sync base)")
   .option("--yes", "skip confirmation prompt", false)
   .option("--json", "print output as JSON", false)
   .action(
@@ -90,29 +222,39 @@ syncCommand
   .command("pull")
   .description("Mirror remote skills into local skills (remote -> local)")
   .option("--dry-run", "show planned changes without applying them", false)
+  .option("--plan-out <file>", "write the computed plan to a file (implies --dry-run)")
   .option("--yes", "skip deletion confirmation prompt", false)
+  .option("--interactive", "choose which planned operations to apply", false)
+  .option("--force", "overwrite skills edited since skillhub installed them", false)
   .option("--json", "print output as JSON", false)
   .action(
-    withJsonErrorHandling(
-      async (options: { dryRun?: boolean; yes?: boolean; json?: boolean }) => {
-        await runSyncPull({
-          dryRun: options.dryRun,
-          yes: options.yes,
-          json: options.json,
-        });
-      }
-    )
+    withJsonErrorHandling(async (options: SyncCommandOptions) => {
+      await runSyncPull({
+        dryRun: options.dryRun,
+        planOut: options.planOut,
+        yes: options.yes,
+        interactive: options.interactive,
+        force: options.force,
+        json: options.json,
+      });
+    })
   );
 
 syncCommand
   .command("push")
   .description("Mirror local skills into remote backup (local -> remote)")
   .option("--dry-run", "show planned changes without applying them", false)
+  .option("--plan-out <file>", "write the computed plan to a file (implies --dry-run)")
+  .option("--recreate", "replace an unreadable remote payload with local skills", false)
+  .option("--resolve-refs", "record the exact commit SHA of each skill's ref", false)
   .option("--json", "print output as JSON", false)
   .action(
-    withJsonErrorHandling(async (options: { dryRun?: boolean; json?: boolean }) => {
+    withJsonErrorHandling(async (options: SyncCommandOptions) => {
       await runSyncPush({
         dryRun: options.dryRun,
+        planOut: options.planOut,
+        recreate: options.recreate,
+        resolveRefs: options.resolveRefs,
         json: options.json,
       });
     })
@@ -120,13 +262,21 @@ syncCommand
 
 syncCommand
   .command("merge")
-  .description("Merge local and remote skills (union behavior)")
+  .description("Three-way merge of local and remote skills against the last sync")
   .option("--dry-run", "show planned changes without applying them", false)
+  .option("--plan-out <file>", "write the computed plan to a file (implies --dry-run)")
+  .option("--interactive", "choose which planned operations to apply", false)
+  .option("--recreate", "replace an unreadable remote payload with local skills", false)
+  .option("--force", "overwrite skills edited since skillhub installed them", false)
   .option("--json", "print output as JSON", false)
   .action(
-    withJsonErrorHandling(async (options: { dryRun?: boolean; json?: boolean }) => {
+    withJsonErrorHandling(async (options: SyncCommandOptions) => {
       await runSyncMerge({
         dryRun: options.dryRun,
+        planOut: options.planOut,
+        recreate: options.recreate,
+        interactive: options.interactive,
+        force: options.force,
         json: options.json,
       });
     })
@@ -136,11 +286,19 @@ syncCommand
   .command("auto")
   .description("Sync using remote.updatedAt and lastSyncAt comparison")
   .option("--dry-run", "show planned changes without applying them", false)
+  .option("--plan-out <file>", "write the computed plan to a file (implies --dry-run)")
+  .option("--interactive", "choose which planned operations to apply", false)
+  .option("--recreate", "replace an unreadable remote payload with local skills", false)
+  .option("--force", "overwrite skills edited since skillhub installed them", false)
   .option("--json", "print output as JSON", false)
   .action(
-    withJsonErrorHandling(async (options: { dryRun?: boolean; json?: boolean }) => {
+    withJsonErrorHandling(async (options: SyncCommandOptions) => {
       await runSyncAuto({
         dryRun: options.dryRun,
+        planOut: options.planOut,
+        recreate: options.recreate,
+        interactive: options.interactive,
+        force: options.force,
         json: options.json,
       });
     })
@@ -151,6 +309,331 @@ syncCommand.action(() => {
   throw new Error("Missing sync mode. Use one of: pull, push, merge, auto.");
 });
 
+const profileCommand = program
+  .command("profile")
+  .description("Manage named profiles (separate token, gist and sync state)");
+
+profileCommand
+  .command("list")
+  .description("List profiles and mark the active one")
+  .option("--json", "print output as JSON", false)
+  .action(
+    withJsonErrorHandling(async (options: { json?: boolean }) => {
+      await runProfileList({ json: options.json });
+    })
+  );
+
+profileCommand
+  .command("create")
+  .description("Create an empty profile")
+  .argument("<name>", "profile name")
+  .option("--json", "print output as JSON", false)
+  .action(async (name: string, options: { json?: boolean }) => {
+    await withJsonErrorHandling(async (commandOptions: { json?: boolean }) => {
+      await runProfileCreate(name, { json: commandOptions.json });
+    })(options);
+  });
+
+profileCommand
+  .command("use")
+  .description("Set the active profile")
+  .argument("<name>", "profile name")
+  .option("--json", "print output as JSON", false)
+  .action(async (name: string, options: { json?: boolean }) => {
+    await withJsonErrorHandling(async (commandOptions: { json?: boolean }) => {
+      await runProfileUse(name, { json: commandOptions.json });
+    })(options);
+  });
+
+profileCommand
+  .command("delete")
+  .description("Delete a profile and its stored data")
+  .argument("<name>", "profile name")
+  .option("--yes", "skip confirmation prompt", false)
+  .option("--json", "print output as JSON", false)
+  .action(async (name: string, options: { yes?: boolean; json?: boolean }) => {
+    await withJsonErrorHandling(
+      async (commandOptions: { yes?: boolean; json?: boolean }) => {
+        await runProfileDelete(name, {
+          yes: commandOptions.yes,
+          json: commandOptions.json,
+        });
+      }
+    )(options);
+  });
+
+profileCommand.action(() => {
+  profileCommand.outputHelp();
+  throw new Error("Missing profile command. Use one of: list, create, use, delete.");
+});
+
+program
+  .command("validate")
+  .description("Validate the remote skillhub.json payload, or a local file with --file")
+  .option("--file <path>", "validate a local skillhub.json file instead of the remote")
+  .option("--json", "print output as JSON", false)
+  .action(
+    withJsonErrorHandling(async (options: { file?: string; json?: boolean }) => {
+      await runValidate({ file: options.file, json: options.json });
+    })
+  );
+
+program
+  .command("upgrade")
+  .description("Reinstall skills whose upstream commit moved (all installed skills by default)")
+  .argument("[names...]", "installed skill names to upgrade")
+  .option("--dry-run", "show which skills would be upgraded without installing", false)
+  .option("--force", "overwrite skills edited since skillhub installed them", false)
+  .option("--json", "print output as JSON", false)
+  .action(async (names: string[], options: UpgradeCommandOptions) => {
+    await withJsonErrorHandling(async (commandOptions: UpgradeCommandOptions) => {
+      await runUpgrade(names, {
+        dryRun: commandOptions.dryRun,
+        force: commandOptions.force,
+        json: commandOptions.json,
+      });
+    })(options);
+  });
+
+program
+  .command("verify")
+  .description("Check installed skills for changes made since skillhub installed them")
+  .argument("[names...]", "installed skill names to check (default: all)")
+  .option("--json", "print output as JSON", false)
+  .action(async (names: string[], options: { json?: boolean }) => {
+    await withJsonErrorHandling(async (commandOptions: { json?: boolean }) => {
+      await runVerify(names, { json: commandOptions.json });
+    })(options);
+  });
+
+program
+  .command("pin")
+  .description("Pin an installed skill to a branch, tag or commit SHA and reinstall it there")
+  .argument("<name>", "installed skill name")
+  .argument("[ref]", "branch, tag or commit SHA (default: current default-branch commit)")
+  .option("--source <owner/repo>", "source repository when the name is installed from several")
+  .option("--force", "overwrite the skill if it was edited since skillhub installed it", false)
+  .option("--json", "print output as JSON", false)
+  .action(
+    async (
+      name: string,
+      ref: string | undefined,
+      options: { source?: string; force?: boolean; json?: boolean }
+    ) => {
+      await withJsonErrorHandling(
+        async (commandOptions: { source?: string; force?: boolean; json?: boolean }) => {
+          await runPin(name, ref, {
+            source: commandOptions.source,
+            force: commandOptions.force,
+            json: commandOptions.json,
+          });
+        }
+      )(options);
+    }
+  );
+
+program
+  .command("unpin")
+  .description("Remove the pinned ref of an installed skill")
+  .argument("<name>", "installed skill name")
+  .option("--source <owner/repo>", "source repository when the name is installed from several")
+  .option("--json", "print output as JSON", false)
+  .action(async (name: string, options: { source?: string; json?: boolean }) => {
+    await withJsonErrorHandling(
+      async (commandOptions: { source?: string; json?: boolean }) => {
+        await runUnpin(name, {
+          source: commandOptions.source,
+          json: commandOptions.json,
+        });
+      }
+    )(options);
+  });
+
+const gistCommand = program
+  .command("gist")
+  .description("List, pin, create or adopt SkillHub gists for the current profile");
+
+gistCommand
+  .command("list")
+  .description("List your gists that contain skillhub.json (* marks the pinned one)")
+  .option("--json", "print output as JSON", false)
+  .action(
+    withJsonErrorHandling(async (options: { json?: boolean }) => {
+      await runGistList({ json: options.json });
+    })
+  );
+
+gistCommand
+  .command("use")
+  .description("Pin one of your SkillHub gists for syncing")
+  .argument("<id>", "gist id from `skillhub gist list`")
+  .option("--json", "print output as JSON", false)
+  .action(async (id: string, options: { json?: boolean }) => {
+    await withJsonErrorHandling(async (commandOptions: { json?: boolean }) => {
+      await runGistUse(id, { json: commandOptions.json });
+    })(options);
+  });
+
+gistCommand
+  .command("create")
+  .description("Create a new, empty SkillHub gist and pin it")
+  .option("--json", "print output as JSON", false)
+  .action(
+    withJsonErrorHandling(async (options: { json?: boolean }) => {
+      await runGistCreate({ json: options.json });
+    })
+  );
+
+gistCommand
+  .command("adopt")
+  .description("Pin an existing SkillHub gist by URL or id, including one owned by someone else")
+  .argument("<url>", "gist URL or id")
+  .option("--json", "print output as JSON", false)
+  .action(async (url: string, options: { json?: boolean }) => {
+    await withJsonErrorHandling(async (commandOptions: { json?: boolean }) => {
+      await runGistAdopt(url, { json: commandOptions.json });
+    })(options);
+  });
+
+gistCommand.action(() => {
+  gistCommand.outputHelp();
+  throw new Error("Missing gist command. Use one of: list, use, create, adopt.");
+});
+
+const remoteCommand = program
+  .command("remote")
+  .description("Show or set the remote backend for the current profile");
+
+remoteCommand
+  .command("show")
+  .description("Show the configured remote backend")
+  .option("--json", "print output as JSON", false)
+  .action(
+    withJsonErrorHandling(async (options: { json?: boolean }) => {
+      await runRemoteShow({ json: options.json });
+    })
+  );
+
+remoteCommand
+  .command("set")
+  .description("Set the remote backend (gist, file:///path or git+<repository>)")
+  .argument("<url>", "remote URL")
+  .option("--json", "print output as JSON", false)
+  .action(async (url: string, options: { json?: boolean }) => {
+    await withJsonErrorHandling(async (commandOptions: { json?: boolean }) => {
+      await runRemoteSet(url, { json: commandOptions.json });
+    })(options);
+  });
+
+remoteCommand
+  .command("encryption")
+  .description("Encrypt skillhub.json with a passphrase on upload (on|off)")
+  .argument("<setting>", "on or off")
+  .option("--json", "print output as JSON", false)
+  .action(async (setting: string, options: { json?: boolean }) => {
+    await withJsonErrorHandling(async (commandOptions: { json?: boolean }) => {
+      await runRemoteEncryption(setting, { json: commandOptions.json });
+    })(options);
+  });
+
+remoteCommand.action(() => {
+  remoteCommand.outputHelp();
+  throw new Error("Missing remote command. Use one of: show, set, encryption.");
+});
+
+const rootsCommand = program
+  .command("roots")
+  .description("Show or set the directories scanned for installed skills");
+
+rootsCommand
+  .command("show")
+  .description("Show the skill roots and whether they exist")
+  .option("--json", "print output as JSON", false)
+  .action(
+    withJsonErrorHandling(async (options: { json?: boolean }) => {
+      await runRootsShow({ json: options.json });
+    })
+  );
+
+rootsCommand
+  .command("set")
+  .description("Replace the skill roots (relative paths start at the home directory)")
+  .argument("<directories...>", "skill root directories")
+  .option("--json", "print output as JSON", false)
+  .action(async (directories: string[], options: { json?: boolean }) => {
+    await withJsonErrorHandling(async (commandOptions: { json?: boolean }) => {
+      await runRootsSet(directories, { json: commandOptions.json });
+    })(options);
+  });
+
+rootsCommand
+  .command("reset")
+  .description("Go back to the built-in agent skill roots")
+  .option("--json", "print output as JSON", false)
+  .action(
+    withJsonErrorHandling(async (options: { json?: boolean }) => {
+      await runRootsReset({ json: options.json });
+    })
+  );
+
+rootsCommand.action(() => {
+  rootsCommand.outputHelp();
+  throw new Error("Missing roots command. Use one of: show, set, reset.");
+});
+
+program
+  .command("apply")
+  .description("Apply a plan file written by `sync <mode> --plan-out`")
+  .argument("<planFile>", "path to the saved plan")
+  .option("--force", "overwrite skills edited since skillhub installed them", false)
+  .option("--json", "print output as JSON", false)
+  .action(async (planFile: string, options: { force?: boolean; json?: boolean }) => {
+    await withJsonErrorHandling(async (commandOptions: { force?: boolean; json?: boolean }) => {
+      await runApply(planFile, { force: commandOptions.force, json: commandOptions.json });
+    })(options);
+  });
+
+program
+  .command("history")
+  .description("List skillhub.json revisions stored in the remote Gist")
+  .option("--limit <count>", "number of revisions to show", parseInteger, 10)
+  .option("--json", "print output as JSON", false)
+  .action(
+    withJsonErrorHandling(async (options: { limit?: number; json?: boolean }) => {
+      await runHistory({
+        limit: options.limit,
+        json: options.json,
+      });
+    })
+  );
+
+program
+  .command("restore")
+  .description("Restore skills from a previous remote Gist revision")
+  .argument("<revision>", "revision SHA (or unique prefix) from `skillhub history`")
+  .option(
+    "--target <target>",
+    "where to apply the revision: remote, local or both",
+    "both"
+  )
+  .option("--dry-run", "show planned changes without applying them", false)
+  .option("--yes", "skip deletion confirmation prompt", false)
+  .option("--recreate", "restore over an unreadable current remote payload", false)
+  .option("--force", "overwrite skills edited since skillhub installed them", false)
+  .option("--json", "print output as JSON", false)
+  .action(async (revision: string, options: RestoreCommandOptions) => {
+    await withJsonErrorHandling(async (commandOptions: RestoreCommandOptions) => {
+      await runRestore(revision, {
+        target: commandOptions.target,
+        dryRun: commandOptions.dryRun,
+        yes: commandOptions.yes,
+        recreate: commandOptions.recreate,
+        force: commandOptions.force,
+        json: commandOptions.json,
+      });
+    })(options);
+  });
+
 program.parseAsync(process.argv).catch((error: unknown) => {
   console.error(`Error: ${errorMessage(error)}`);
   process.exitCode = 1;
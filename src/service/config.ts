@@ -1,70 +1,327 @@
-type ConfigShape = {
+import { SkillInfo } from "@/service/gistService";
+import type { EncryptedEnvelope } from "@/utils/crypto";
+
+export const DEFAULT_PROFILE_NAME = "default";
+const PROFILE_ENV_VAR = "SKILLHUB_PROFILE";
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export type AuthFlow = "pat" | "device";
+
+export type ProfileShape = {
   githubToken?: string;
+  // Passphrase-encrypted token; replaces `githubToken` once encryption is enabled.
+  githubTokenEncrypted?: EncryptedEnvelope;
+  // How the stored token was obtained: pasted PAT or OAuth device flow.
+  authFlow?: AuthFlow;
+  // REST API base URL of the GitHub host the token belongs to; unset means github.com.
+  githubBaseUrl?: string;
   gistId?: string;
   lastSyncAt?: string;
+  // Skill set recorded at the last successful sync; base for three-way plans.
+  baseSkills?: SkillInfo[];
+  // Encrypt skillhub.json with a passphrase before uploading it.
+  payloadEncryption?: boolean;
+  // Remote backend URL (`gist`, `file:///path` or `git+<repository>`); defaults to the GitHub Gist.
+  remote?: string;
+};
+
+type ProfileKey = keyof ProfileShape;
+
+// Legacy single-profile keys live at the top level until migrated.
+export type ConfigShape = ProfileShape & {
+  activeProfile?: string;
+  profiles?: Record<string, ProfileShape>;
+  // Ref each globally installed skill was installed at, keyed by `source:name`; machine-wide.
+  installedRefs?: Record<string, string>;
+  // Commit SHA each skill was installed from, when known (same keys as `installedRefs`).
+  installedCommits?: Record<string, string>;
+  // Content hash of each skill folder right after skillhub installed it (same keys).
+  installedHashes?: Record<string, string>;
+  // Directories scanned for installed skill folders; unset means the built-in agent roots.
+  skillRoots?: string[];
 };
 
-type ConfigApi<T> = {
+export type ConfigApi<T> = {
   get: <K extends keyof T>(key: K) => T[K] | undefined;
   set: <K extends keyof T>(key: K, value: T[K]) => void;
   delete: <K extends keyof T>(key: K) => void;
 };
 
+// Session keys cleared on logout and migrated from legacy single-profile configs.
+const PROFILE_KEYS: ProfileKey[] = [
+  "githubToken",
+  "githubTokenEncrypted",
+  "authFlow",
+  "gistId",
+  "lastSyncAt",
+  "baseSkills",
+];
+
 let configPromise: Promise<ConfigApi<ConfigShape>> | null = null;
+let profileOverride: string | undefined;
+
+export function assertValidProfileName(name: string) {
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    throw new Error(
+      `Invalid profile name "${name}". Use letters, digits, "-" or "_".`
+    );
+  }
+}
+
+export function migrateLegacyConfig(config: ConfigApi<ConfigShape>) {
+  const legacyKeys = PROFILE_KEYS.filter((key) => config.get(key) !== undefined);
+  if (legacyKeys.length === 0) {
+    return false;
+  }
+
+  const profiles = { ...(config.get("profiles") ?? {}) };
+  const migrated: ProfileShape = { ...(profiles[DEFAULT_PROFILE_NAME] ?? {}) };
+  for (const key of legacyKeys) {
+    if (migrated[key] === undefined) {
+      Object.assign(migrated, { [key]: config.get(key) });
+    }
+    config.delete(key);
+  }
+
+  profiles[DEFAULT_PROFILE_NAME] = migrated;
+  config.set("profiles", profiles);
+  return true;
+}
 
 async function getConfig() {
   if (!configPromise) {
-    configPromise = import("conf").then(
-      (module) =>
-        new module.default<ConfigShape>({ projectName: "skillhub" }) as ConfigApi<
-          ConfigShape
-        >
-    );
+    configPromise = import("conf").then((module) => {
+      const config = new module.default<ConfigShape>({
+        projectName: "skillhub",
+      }) as ConfigApi<ConfigShape>;
+      migrateLegacyConfig(config);
+      return config;
+    });
   }
   return configPromise;
 }
 
+function resolveProfileName(config: ConfigApi<ConfigShape>) {
+  const fromEnv = process.env[PROFILE_ENV_VAR];
+  if (!profileOverride && fromEnv) {
+    assertValidProfileName(fromEnv);
+  }
+  return (
+    profileOverride ||
+    fromEnv ||
+    config.get("activeProfile") ||
+    DEFAULT_PROFILE_NAME
+  );
+}
+
+async function getProfileValue<K extends ProfileKey>(key: K) {
+  const config = await getConfig();
+  const profile = config.get("profiles")?.[resolveProfileName(config)];
+  return profile?.[key];
+}
+
+async function setProfileValue<K extends ProfileKey>(
+  key: K,
+  value: ProfileShape[K]
+) {
+  const config = await getConfig();
+  const name = resolveProfileName(config);
+  const profiles = { ...(config.get("profiles") ?? {}) };
+  profiles[name] = { ...(profiles[name] ?? {}), [key]: value };
+  config.set("profiles", profiles);
+}
+
+async function deleteProfileValues(keys: ProfileKey[]) {
+  const config = await getConfig();
+  const name = resolveProfileName(config);
+  const profiles = { ...(config.get("profiles") ?? {}) };
+  const profile = { ...(profiles[name] ?? {}) };
+  for (const key of keys) {
+    delete profile[key];
+  }
+  profiles[name] = profile;
+  config.set("profiles", profiles);
+}
+
 export const configStore = {
-  async getToken() {
+  setProfileOverride(name: string | undefined) {
+    if (name !== undefined) {
+      assertValidProfileName(name);
+    }
+    profileOverride = name;
+  },
+  async getProfileName() {
     const config = await getConfig();
-    return config.get("githubToken");
+    return resolveProfileName(config);
   },
-  async setToken(token: string) {
+  // A mistyped --profile or SKILLHUB_PROFILE must not silently start an empty profile.
+  async assertProfileExists() {
     const config = await getConfig();
-    config.set("githubToken", token);
+    const name = resolveProfileName(config);
+    if (name !== DEFAULT_PROFILE_NAME && !config.get("profiles")?.[name]) {
+      throw new Error(
+        `Profile "${name}" does not exist. Check --profile and ${PROFILE_ENV_VAR}, or run \`skillhub profile create ${name}\` first.`
+      );
+    }
   },
-  async getGistId() {
+  async getActiveProfile() {
     const config = await getConfig();
-    return config.get("gistId");
+    return config.get("activeProfile") ?? DEFAULT_PROFILE_NAME;
   },
-  async setGistId(gistId: string) {
+  async listProfiles() {
     const config = await getConfig();
-    config.set("gistId", gistId);
+    const profiles = config.get("profiles") ?? {};
+    const names = new Set([DEFAULT_PROFILE_NAME, ...Object.keys(profiles)]);
+    return [...names].sort().map((name) => ({
+      name,
+      ...(profiles[name] ?? {}),
+    }));
   },
-  async getLastSyncAt() {
+  async createProfile(name: string) {
+    assertValidProfileName(name);
     const config = await getConfig();
-    return config.get("lastSyncAt");
+    const profiles = { ...(config.get("profiles") ?? {}) };
+    if (profiles[name] || name === DEFAULT_PROFILE_NAME) {
+      throw new Error(`Profile "${name}" already exists.`);
+    }
+    profiles[name] = {};
+    config.set("profiles", profiles);
   },
-  async setLastSyncAt(lastSyncAt: string) {
+  async useProfile(name: string) {
+    assertValidProfileName(name);
     const config = await getConfig();
-    config.set("lastSyncAt", lastSyncAt);
+    const profiles = config.get("profiles") ?? {};
+    if (!profiles[name] && name !== DEFAULT_PROFILE_NAME) {
+      throw new Error(
+        `Profile "${name}" does not exist. Run \`skillhub profile create ${name}\` first.`
+      );
+    }
+    config.set("activeProfile", name);
   },
-  async clearToken() {
+  async deleteProfile(name: string) {
+    assertValidProfileName(name);
     const config = await getConfig();
-    config.delete("githubToken");
+    if ((config.get("activeProfile") ?? DEFAULT_PROFILE_NAME) === name) {
+      throw new Error(
+        `Profile "${name}" is active. Switch to another profile before deleting it.`
+      );
+    }
+    const profiles = { ...(config.get("profiles") ?? {}) };
+    if (!profiles[name]) {
+      throw new Error(`Profile "${name}" does not exist.`);
+    }
+    delete profiles[name];
+    config.set("profiles", profiles);
   },
-  async clearGistId() {
+  async getInstalledRefs() {
     const config = await getConfig();
-    config.delete("gistId");
+    return config.get("installedRefs") ?? {};
   },
-  async clearLastSyncAt() {
+  async setInstalledRefs(refs: Record<string, string>) {
     const config = await getConfig();
-    config.delete("lastSyncAt");
+    config.set("installedRefs", refs);
   },
-  async clearSession() {
+  async getInstalledCommits() {
+    const config = await getConfig();
+    return config.get("installedCommits") ?? {};
+  },
+  async setInstalledCommits(commits: Record<string, string>) {
+    const config = await getConfig();
+    config.set("installedCommits", commits);
+  },
+  async getInstalledHashes() {
     const config = await getConfig();
-    config.delete("githubToken");
-    config.delete("gistId");
-    config.delete("lastSyncAt");
+    return config.get("installedHashes") ?? {};
+  },
+  async setInstalledHashes(hashes: Record<string, string>) {
+    const config = await getConfig();
+    config.set("installedHashes", hashes);
+  },
+  async getSkillRoots() {
+    const config = await getConfig();
+    return config.get("skillRoots");
+  },
+  async setSkillRoots(roots: string[]) {
+    const config = await getConfig();
+    config.set("skillRoots", roots);
+  },
+  async clearSkillRoots() {
+    const config = await getConfig();
+    config.delete("skillRoots");
+  },
+  async getToken() {
+    return getProfileValue("githubToken");
+  },
+  async setToken(token: string) {
+    await setProfileValue("githubToken", token);
+  },
+  async getEncryptedToken() {
+    return getProfileValue("githubTokenEncrypted");
+  },
+  async setEncryptedToken(envelope: EncryptedEnvelope) {
+    await setProfileValue("githubTokenEncrypted", envelope);
+  },
+  async clearEncryptedToken() {
+    await deleteProfileValues(["githubTokenEncrypted"]);
+  },
+  async getAuthFlow() {
+    return getProfileValue("authFlow");
+  },
+  async setAuthFlow(authFlow: AuthFlow) {
+    await setProfileValue("authFlow", authFlow);
+  },
+  async getGitHubBaseUrl() {
+    return getProfileValue("githubBaseUrl");
+  },
+  async setGitHubBaseUrl(baseUrl: string) {
+    await setProfileValue("githubBaseUrl", baseUrl);
+  },
+  async getGistId() {
+    return getProfileValue("gistId");
+  },
+  async setGistId(gistId: string) {
+    await setProfileValue("gistId", gistId);
+  },
+  async getLastSyncAt() {
+    return getProfileValue("lastSyncAt");
+  },
+  async setLastSyncAt(lastSyncAt: string) {
+    await setProfileValue("lastSyncAt", lastSyncAt);
+  },
+  async getBaseSkills() {
+    return getProfileValue("baseSkills");
+  },
+  async setBaseSkills(baseSkills: SkillInfo[]) {
+    await setProfileValue("baseSkills", baseSkills);
+  },
+  async getPayloadEncryption() {
+    return getProfileValue("payloadEncryption");
+  },
+  async setPayloadEncryption(enabled: boolean) {
+    await setProfileValue("payloadEncryption", enabled);
+  },
+  async getRemote() {
+    return getProfileValue("remote");
+  },
+  async setRemote(remote: string) {
+    await setProfileValue("remote", remote);
+  },
+  async clearRemote() {
+    await deleteProfileValues(["remote"]);
+  },
+  async clearToken() {
+    await deleteProfileValues(["githubToken"]);
+  },
+  async clearGistId() {
+    await deleteProfileValues(["gistId"]);
+  },
+  async clearLastSyncAt() {
+    await deleteProfileValues(["lastSyncAt"]);
+  },
+  async clearBaseSkills() {
+    await deleteProfileValues(["baseSkills"]);
+  },
+  async clearSession() {
+    await deleteProfileValues(PROFILE_KEYS);
   },
 };
@@ -0,0 +1,146 @@
+import { getGitHubWebUrl } from "@/service/githubHost";
+
+const CLIENT_ID_ENV_VAR = "SKILLHUB_OAUTH_CLIENT_ID";
+const DEVICE_CODE_URL_ENV_VAR = "SKILLHUB_OAUTH_DEVICE_CODE_URL";
+const TOKEN_URL_ENV_VAR = "SKILLHUB_OAUTH_TOKEN_URL";
+const DEVICE_GRANT_TYPE = "urn:ietf:params:oauth:grant-type:device_code";
+const DEVICE_FLOW_SCOPE = "gist";
+const SLOW_DOWN_INCREMENT_SECONDS = 5;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export type DeviceFlowConfig = {
+  clientId: string;
+  deviceCodeUrl: string;
+  tokenUrl: string;
+};
+
+export type DeviceCode = {
+  deviceCode: string;
+  userCode: string;
+  verificationUri: string;
+  expiresIn: number;
+  interval: number;
+};
+
+type DeviceFlowResponse = Record<string, unknown> & {
+  error?: string;
+  error_description?: string;
+};
+
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => {
+    setTimeout(resolve, ms);
+  });
+}
+
+// Endpoints default to the host's `/login/...` URLs; env vars point the flow at a stand-in server.
+export function resolveDeviceFlowConfig(
+  baseUrl: string,
+  clientId: string | undefined = process.env[CLIENT_ID_ENV_VAR]
+): DeviceFlowConfig {
+  if (!clientId) {
+    throw new Error(
+      `No OAuth app client id configured for --web login. Pass --client-id or set ${CLIENT_ID_ENV_VAR}.`
+    );
+  }
+
+  const webUrl = getGitHubWebUrl(baseUrl);
+  return {
+    clientId,
+    deviceCodeUrl:
+      process.env[DEVICE_CODE_URL_ENV_VAR] || `${webUrl}/login/device/code`,
+    tokenUrl: process.env[TOKEN_URL_ENV_VAR] || `${webUrl}/login/oauth/access_token`,
+  };
+}
+
+async function postForm(url: string, fields: Record<string, string>) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams(fields).toString(),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  let body: DeviceFlowResponse;
+  try {
+    body = (await response.json()) as DeviceFlowResponse;
+  } catch {
+    throw new Error(`Unexpected response from ${url} (HTTP ${response.status}).`);
+  }
+  if (!response.ok && !body.error) {
+    throw new Error(`Request to ${url} failed with HTTP ${response.status}.`);
+  }
+  return body;
+}
+
+function describeResponseError(body: DeviceFlowResponse) {
+  return body.error_description ? `${body.error}: ${body.error_description}` : body.error;
+}
+
+export async function requestDeviceCode(config: DeviceFlowConfig): Promise<DeviceCode> {
+  const body = await postForm(config.deviceCodeUrl, {
+    client_id: config.clientId,
+    scope: DEVICE_FLOW_SCOPE,
+  });
+  if (body.error) {
+    throw new Error(`Device code request failed (${describeResponseError(body)}).`);
+  }
+  if (typeof body.device_code !== "string" || typeof body.user_code !== "string") {
+    throw new Error("Device code response is missing device_code or user_code.");
+  }
+
+  return {
+    deviceCode: body.device_code,
+    userCode: body.user_code,
+    verificationUri: String(body.verification_uri ?? ""),
+    expiresIn: Number(body.expires_in ?? 900),
+    interval: Number(body.interval ?? 5),
+  };
+}
+
+// Polls the token endpoint until the user approves, denies, or the code expires.
+export async function pollForDeviceToken(
+  config: DeviceFlowConfig,
+  code: DeviceCode,
+  options: { sleep?: (ms: number) => Promise<void>; now?: () => number } = {}
+) {
+  const wait = options.sleep ?? sleep;
+  const now = options.now ?? Date.now;
+  const deadline = now() + code.expiresIn * 1000;
+  let intervalSeconds = code.interval;
+
+  while (now() < deadline) {
+    await wait(intervalSeconds * 1000);
+    const body = await postForm(config.tokenUrl, {
+      client_id: config.clientId,
+      device_code: code.deviceCode,
+      grant_type: DEVICE_GRANT_TYPE,
+    });
+
+    if (typeof body.access_token === "string" && body.access_token) {
+      return body.access_token;
+    }
+
+    switch (body.error) {
+      case "authorization_pending":
+        continue;
+      case "slow_down":
+        intervalSeconds =
+          Number(body.interval) || intervalSeconds + SLOW_DOWN_INCREMENT_SECONDS;
+        continue;
+      case "expired_token":
+        throw new Error("The device code expired before it was authorized. Run login again.");
+      case "access_denied":
+        throw new Error("Authorization was denied in the browser.");
+      default:
+        throw new Error(
+          `Device authorization failed (${describeResponseError(body) ?? "no access token returned"}).`
+        );
+    }
+  }
+
+  throw new Error("The device code expired before it was authorized. Run login again.");
+}
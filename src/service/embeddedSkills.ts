@@ -0,0 +1,165 @@
+import { createHash, randomBytes } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  EMBEDDED_SKILL_SOURCE,
+  isSafeEmbeddedPath,
+  isValidEmbeddedName,
+} from "@/core/payloadSchema";
+import { EmbeddedSkillFile, SkillInfo } from "@/service/gistService";
+import type { ScannedSkill } from "@/service/skillScan";
+import { CliError } from "@/utils/errors";
+
+// skillhub.json is fetched in one piece, so embedded content is kept small.
+export const MAX_EMBEDDED_FILE_BYTES = 256 * 1024;
+export const MAX_EMBEDDED_SKILL_BYTES = 1024 * 1024;
+
+function toBuffer(file: EmbeddedSkillFile) {
+  return Buffer.from(file.content, file.encoding === "base64" ? "base64" : "utf8");
+}
+
+// Binary files (NUL bytes or invalid UTF-8) would not survive a UTF-8 round trip.
+function isBinary(content: Buffer) {
+  return (
+    content.includes(0) || !Buffer.from(content.toString("utf8"), "utf8").equals(content)
+  );
+}
+
+function comparePaths(a: string, b: string) {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function updateFileHash(hash: ReturnType<typeof createHash>, filePath: string, content: Buffer) {
+  hash.update(filePath).update("\0").update(content).update("\0");
+}
+
+// Independent of the stored encoding and of locale, so every machine computes the same hash.
+export function hashEmbeddedFiles(files: EmbeddedSkillFile[]) {
+  const hash = createHash("sha256");
+  for (const file of [...files].sort((a, b) => comparePaths(a.path, b.path))) {
+    updateFileHash(hash, file.path, toBuffer(file));
+  }
+  return `sha256:${hash.digest("hex")}`;
+}
+
+function cannotEmbed(name: string, message: string): never {
+  throw new CliError("EMBEDDED_SKILL_REJECTED", `Skill "${name}" cannot be embedded: ${message}`);
+}
+
+// Relative `/`-separated file paths, sorted. Dotfiles and symlinks are skipped: they are
+// editor or VCS state, or point outside the folder.
+async function listSkillFiles(folder: string, relative = ""): Promise<string[]> {
+  const entries = await fs.readdir(path.join(folder, relative), { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    if (entry.name.startsWith(".") || entry.isSymbolicLink()) continue;
+    const filePath = relative ? `${relative}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...(await listSkillFiles(folder, filePath)));
+    } else if (entry.isFile()) {
+      files.push(filePath);
+    }
+  }
+  return files.sort(comparePaths);
+}
+
+function readSkillFile(folder: string, filePath: string) {
+  return fs.readFile(path.join(folder, ...filePath.split("/")));
+}
+
+// Same hash as the folder's files would get as an embedded skill, without the size limits.
+export async function hashSkillFolder(folder: string) {
+  const hash = createHash("sha256");
+  for (const filePath of await listSkillFiles(folder)) {
+    updateFileHash(hash, filePath, await readSkillFile(folder, filePath));
+  }
+  return `sha256:${hash.digest("hex")}`;
+}
+
+export async function readEmbeddedSkill(scanned: ScannedSkill): Promise<SkillInfo> {
+  if (!isValidEmbeddedName(scanned.name)) {
+    cannotEmbed(scanned.name, "use only letters, digits, '.', '_' or '-' in its name.");
+  }
+
+  const files: EmbeddedSkillFile[] = [];
+  let totalBytes = 0;
+  for (const filePath of await listSkillFiles(scanned.path)) {
+    const content = await readSkillFile(scanned.path, filePath);
+    if (content.length > MAX_EMBEDDED_FILE_BYTES) {
+      cannotEmbed(
+        scanned.name,
+        `${filePath} is ${content.length} bytes (limit ${MAX_EMBEDDED_FILE_BYTES}).`
+      );
+    }
+    totalBytes += content.length;
+    if (totalBytes > MAX_EMBEDDED_SKILL_BYTES) {
+      cannotEmbed(scanned.name, `its files exceed ${MAX_EMBEDDED_SKILL_BYTES} bytes in total.`);
+    }
+    files.push(
+      isBinary(content)
+        ? { path: filePath, encoding: "base64", content: content.toString("base64") }
+        : { path: filePath, encoding: "utf8", content: content.toString("utf8") }
+    );
+  }
+
+  return {
+    name: scanned.name,
+    source: EMBEDDED_SKILL_SOURCE,
+    embedded: { hash: hashEmbeddedFiles(files), files },
+  };
+}
+
+// Oversized skills and unusable names are skipped with a warning instead of failing the command.
+export async function readEmbeddedSkills(scanned: ScannedSkill[]) {
+  const skills: SkillInfo[] = [];
+  for (const item of scanned) {
+    try {
+      skills.push(await readEmbeddedSkill(item));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`${message} It is not synced.`);
+    }
+  }
+  return skills;
+}
+
+// Writes the files next to the target folder first, then swaps it in.
+export async function writeEmbeddedSkill(root: string, skill: SkillInfo) {
+  const files = skill.embedded?.files;
+  if (!isValidEmbeddedName(skill.name)) {
+    throw new Error(`Embedded skill name "${skill.name}" is not a valid folder name.`);
+  }
+  if (!files) {
+    throw new Error(`Skill "${skill.name}" has no embedded files to install.`);
+  }
+  if (hashEmbeddedFiles(files) !== skill.embedded!.hash) {
+    throw new CliError(
+      "EMBEDDED_HASH_MISMATCH",
+      `Embedded files of "${skill.name}" do not match their hash; the payload may be damaged.`
+    );
+  }
+  const unsafe = files.find((file) => !isSafeEmbeddedPath(file.path));
+  if (unsafe) {
+    throw new Error(
+      `Embedded file "${unsafe.path}" of "${skill.name}" escapes the skill folder.`
+    );
+  }
+
+  const target = path.join(root, skill.name);
+  const suffix = randomBytes(4).toString("hex");
+  const staging = path.join(root, `.skillhub-${skill.name}-${suffix}`);
+  try {
+    await fs.mkdir(staging, { recursive: true });
+    for (const file of files) {
+      const filePath = path.join(staging, ...file.path.split("/"));
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, toBuffer(file));
+    }
+    await fs.rm(target, { recursive: true, force: true });
+    await fs.rename(staging, target);
+  } catch (error) {
+    await fs.rm(staging, { recursive: true, force: true });
+    throw error;
+  }
+  return target;
+}
@@ -0,0 +1,169 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+  SKILLHUB_FILENAME,
+  SkillhubRevision,
+  SkillhubSnapshot,
+} from "@/service/gistService";
+import { decodeSkillhubContent, encodeSkillhubPayload } from "@/service/payloadCodec";
+import type { RemoteStore } from "@/service/remoteStore";
+import {
+  isInvalidPayloadError,
+  PayloadValidationError,
+  RemoteConflictError,
+} from "@/utils/errors";
+
+const HISTORY_DIRNAME = ".skillhub-history";
+const HISTORY_ENTRY_PATTERN = /^(\d+)-([0-9a-f]+)\.json$/;
+
+function hashContent(content: string) {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+function isMissingFileError(error: unknown) {
+  return (error as { code?: string })?.code === "ENOENT";
+}
+
+async function readOptionalFile(filePath: string) {
+  try {
+    return await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    if (isMissingFileError(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Write to a temporary file first so readers never see a half-written payload.
+async function writeFileAtomic(filePath: string, content: string) {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, content, "utf-8");
+  await fs.rename(tempPath, filePath);
+}
+
+async function listHistoryEntries(directory: string) {
+  let names: string[];
+  try {
+    names = await fs.readdir(path.join(directory, HISTORY_DIRNAME));
+  } catch (error) {
+    if (isMissingFileError(error)) {
+      return [];
+    }
+    throw error;
+  }
+
+  return names
+    .map((name) => {
+      const match = HISTORY_ENTRY_PATTERN.exec(name);
+      if (!match) {
+        return null;
+      }
+      return {
+        name,
+        timestamp: Number(match[1]),
+        revision: match[2]!,
+      };
+    })
+    .filter((entry): entry is NonNullable<typeof entry> => entry !== null)
+    .sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export function createFileRemoteStore(directory: string): RemoteStore {
+  const payloadPath = path.join(directory, SKILLHUB_FILENAME);
+
+  const readSnapshot = async (): Promise<SkillhubSnapshot & { exists: boolean }> => {
+    const content = await readOptionalFile(payloadPath);
+    if (content === null) {
+      return { exists: false, payload: null, revision: null };
+    }
+    return {
+      exists: true,
+      payload: await decodeSkillhubContent(content),
+      revision: hashContent(content),
+    };
+  };
+
+  const writePayload = async (content: string) => {
+    const revision = hashContent(content);
+    const historyDir = path.join(directory, HISTORY_DIRNAME);
+    await fs.mkdir(historyDir, { recursive: true });
+    await writeFileAtomic(payloadPath, content);
+    await fs.writeFile(
+      path.join(historyDir, `${Date.now()}-${revision}.json`),
+      content,
+      "utf-8"
+    );
+    return revision;
+  };
+
+  return {
+    kind: "file",
+    url: pathToFileURL(directory).href,
+    async locate(options = {}) {
+      const content = await readOptionalFile(payloadPath);
+      if (content === null) {
+        return { id: null, payload: null, revision: null, corrupt: false };
+      }
+
+      const revision = hashContent(content);
+      try {
+        const payload = await decodeSkillhubContent(content);
+        if (!payload) {
+          throw new PayloadValidationError([{ path: "$", message: "file is empty" }]);
+        }
+        return { id: directory, payload, revision, corrupt: false };
+      } catch (error) {
+        if (options.recreate && isInvalidPayloadError(error)) {
+          return { id: directory, payload: null, revision, corrupt: true };
+        }
+        throw error;
+      }
+    },
+    async read() {
+      const snapshot = await readSnapshot();
+      return { payload: snapshot.payload, revision: snapshot.revision };
+    },
+    async create(payload) {
+      const previous = await readOptionalFile(payloadPath);
+      const revision = await writePayload(await encodeSkillhubPayload(payload, previous));
+      return { id: directory, revision };
+    },
+    async write(_id, payload, options = {}) {
+      // Compares the raw bytes, so a corrupt payload can still be replaced with --recreate.
+      const previous = await readOptionalFile(payloadPath);
+      if (options.expectedRevision) {
+        const currentRevision = previous === null ? null : hashContent(previous);
+        if (currentRevision !== options.expectedRevision) {
+          throw new RemoteConflictError(
+            `Remote ${SKILLHUB_FILENAME} changed since it was read (expected revision ${options.expectedRevision}, found ${currentRevision ?? "none"}).`
+          );
+        }
+      }
+
+      const revision = await writePayload(await encodeSkillhubPayload(payload, previous));
+      return { revision };
+    },
+    async history(): Promise<SkillhubRevision[]> {
+      const entries = await listHistoryEntries(directory);
+      return entries.map((entry) => ({
+        revision: entry.revision,
+        committedAt: new Date(entry.timestamp).toISOString(),
+      }));
+    },
+    async readRevision(_id, revision) {
+      const entries = await listHistoryEntries(directory);
+      const entry = entries.find((item) => item.revision === revision);
+      if (!entry) {
+        return null;
+      }
+      const content = await fs.readFile(
+        path.join(directory, HISTORY_DIRNAME, entry.name),
+        "utf-8"
+      );
+      return decodeSkillhubContent(content);
+    },
+  };
+}
@@ -1,39 +1,74 @@
 import { Octokit, RestEndpointMethodTypes } from "@octokit/rest";
+import { CURRENT_SCHEMA_VERSION, parseSkillhubPayload } from "@/core/payloadSchema";
+import { decodeSkillhubContent, encodeSkillhubPayload } from "@/service/payloadCodec";
+import { PayloadValidationError, RemoteConflictError } from "@/utils/errors";
 import { isTransientError, retryAsync } from "@/utils/retry";
 
-const SKILLHUB_FILENAME = "skillhub.json";
-const DEFAULT_SKILL_SOURCE_REPO = "vercel-labs/agent-skills";
+export const SKILLHUB_FILENAME = "skillhub.json";
 const GITHUB_TIMEOUT_MS = 10_000;
 
+// One file of an embedded skill; files that are not valid UTF-8 text are stored base64-encoded.
+export type EmbeddedSkillFile = {
+  path: string; // relative, `/`-separated
+  encoding: "utf8" | "base64";
+  content: string;
+};
+
+export type EmbeddedSkill = {
+  // `sha256:<hex>` of every file path and content; a different hash means changed files.
+  hash: string;
+  // Left out where only the hash matters, such as the recorded sync base.
+  files?: EmbeddedSkillFile[];
+};
+
 export type SkillInfo = {
   name: string;
-  source: string; // owner/repo format
+  source: string; // owner/repo format, or EMBEDDED_SKILL_SOURCE for embedded skills
+  // Branch, tag or commit SHA to install; unset follows the default branch.
+  ref?: string;
+  // Locally authored skill whose files travel inside the payload.
+  embedded?: EmbeddedSkill;
 };
 
 // Backward compatibility: allow legacy payload with string[].
 export type SkillhubPayload = {
+  // Written as CURRENT_SCHEMA_VERSION; older payloads are migrated on read.
+  schemaVersion?: number;
   skills: SkillInfo[] | string[];
   updatedAt: string;
 };
 
+// Remote payload together with the gist revision it was read from.
+export type SkillhubSnapshot = {
+  payload: SkillhubPayload | null;
+  revision: string | null;
+};
+
+export type SkillhubRevision = {
+  revision: string;
+  committedAt: string | null;
+};
+
 type Gist = RestEndpointMethodTypes["gists"]["list"]["response"]["data"][number];
-type GistFile = { filename?: string; content?: string };
+type GistDetail = RestEndpointMethodTypes["gists"]["get"]["response"]["data"];
+type GistFile = { filename?: string; content?: string; truncated?: boolean; raw_url?: string };
 
 function withGitHubRetry<T>(label: string, fn: () => Promise<T>) {
   return retryAsync(fn, { label, shouldRetry: isTransientError });
 }
 
-export function createOctokit(token: string) {
+export function createOctokit(token: string | undefined, baseUrl?: string) {
   return new Octokit({
     auth: token,
+    baseUrl,
     request: {
       timeout: GITHUB_TIMEOUT_MS,
     },
   });
 }
 
-export async function verifyToken(token: string) {
-  const octokit = createOctokit(token);
+export async function verifyToken(token: string, baseUrl?: string) {
+  const octokit = createOctokit(token, baseUrl);
   await withGitHubRetry("users.getAuthenticated", () =>
     octokit.users.getAuthenticated()
   );
@@ -48,62 +83,152 @@ export async function checkGistAccess(octokit: Octokit) {
   );
 }
 
-export async function findSkillhubGist(octokit: Octokit) {
+// A gist that holds a skillhub.json file; several can exist for one account.
+export type SkillhubGistCandidate = {
+  id: string;
+  description: string | null;
+  updatedAt: string | null;
+  htmlUrl: string | null;
+};
+
+function hasSkillhubFile(gist: Gist) {
+  const files = Object.values(gist.files ?? {}) as GistFile[];
+  return files.some((file) => file?.filename === SKILLHUB_FILENAME);
+}
+
+function toGistCandidate(gist: Gist): SkillhubGistCandidate {
+  return {
+    id: gist.id!,
+    description: gist.description ?? null,
+    updatedAt: gist.updated_at ?? null,
+    htmlUrl: gist.html_url ?? null,
+  };
+}
+
+// Most recently updated first.
+export async function listSkillhubGists(octokit: Octokit) {
   const gists = await withGitHubRetry("gists.paginate", () =>
     octokit.paginate(octokit.rest.gists.list, { per_page: 100 })
   );
 
-  return gists.find((gist: Gist) => {
-    const files = Object.values(gist.files ?? {}) as GistFile[];
-    return files.some((file) => file?.filename === SKILLHUB_FILENAME);
-  });
+  return gists
+    .filter((gist: Gist) => Boolean(gist.id) && hasSkillhubFile(gist))
+    .map(toGistCandidate)
+    .sort((a, b) => (b.updatedAt ?? "").localeCompare(a.updatedAt ?? ""));
 }
 
-export async function getSkillhubPayload(octokit: Octokit, gistId: string) {
-  const gist = await withGitHubRetry("gists.get", () =>
-    octokit.gists.get({ gist_id: gistId })
-  );
-  const file = Object.values(gist.data.files ?? {}).find(
-    (item) => item?.filename === SKILLHUB_FILENAME
-  ) as GistFile | undefined;
+export function serializeSkillhubPayload(payload: SkillhubPayload) {
+  const { schemaVersion: _previousVersion, ...rest } = payload;
+  return JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, ...rest }, null, 2);
+}
 
-  if (!file?.content) {
+function getGistRevision(gist: GistDetail) {
+  return gist.history?.[0]?.version ?? gist.updated_at ?? null;
+}
+
+// Returns null for missing content; throws PayloadValidationError describing what is wrong.
+export function parseSkillhubContent(content: string | undefined) {
+  if (!content) {
     return null;
   }
 
+  let parsed: unknown;
   try {
-    const parsed = JSON.parse(file.content) as SkillhubPayload;
-    if (!Array.isArray(parsed.skills)) {
-      return null;
-    }
+    parsed = JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new PayloadValidationError([
+      { path: "$", message: `is not valid JSON (${message})` },
+    ]);
+  }
 
-    const normalizedSkills = parsed.skills.map((skill) => {
-      if (typeof skill === "string") {
-        return { name: skill, source: DEFAULT_SKILL_SOURCE_REPO };
-      }
-      return skill;
-    });
-
-    return {
-      ...parsed,
-      skills: normalizedSkills,
-    };
-  } catch {
-    return null;
+  const result = parseSkillhubPayload(parsed);
+  if (!result.ok) {
+    throw new PayloadValidationError(result.issues);
+  }
+  return result.payload;
+}
+
+// The API truncates file content beyond about 1 MB (payloads with embedded skills can be larger).
+async function readSkillhubFile(octokit: Octokit, files: GistDetail["files"]) {
+  const file = Object.values(files ?? {}).find(
+    (item) => item?.filename === SKILLHUB_FILENAME
+  ) as GistFile | undefined;
+  if (!file?.truncated || !file.raw_url) {
+    return file?.content;
   }
+
+  const rawUrl = file.raw_url;
+  const response = await withGitHubRetry("gists.raw", () => octokit.request(`GET ${rawUrl}`));
+  return typeof response.data === "string" ? response.data : JSON.stringify(response.data);
+}
+
+export async function getSkillhubSnapshot(
+  octokit: Octokit,
+  gistId: string
+): Promise<SkillhubSnapshot> {
+  const gist = await withGitHubRetry("gists.get", () =>
+    octokit.gists.get({ gist_id: gistId })
+  );
+  return {
+    payload: await decodeSkillhubContent(await readSkillhubFile(octokit, gist.data.files)),
+    revision: getGistRevision(gist.data),
+  };
+}
+
+export async function getSkillhubPayload(octokit: Octokit, gistId: string) {
+  const snapshot = await getSkillhubSnapshot(octokit, gistId);
+  return snapshot.payload;
+}
+
+// Readable even when skillhub.json is not, so a --recreate upload can still be conditional.
+export async function getSkillhubRevision(octokit: Octokit, gistId: string) {
+  const gist = await withGitHubRetry("gists.get", () =>
+    octokit.gists.get({ gist_id: gistId })
+  );
+  return getGistRevision(gist.data);
+}
+
+// Newest revision first, as returned by the gist history.
+export async function listSkillhubRevisions(
+  octokit: Octokit,
+  gistId: string
+): Promise<SkillhubRevision[]> {
+  const gist = await withGitHubRetry("gists.get", () =>
+    octokit.gists.get({ gist_id: gistId })
+  );
+
+  return (gist.data.history ?? [])
+    .filter((entry) => Boolean(entry.version))
+    .map((entry) => ({
+      revision: entry.version!,
+      committedAt: entry.committed_at ?? null,
+    }));
+}
+
+export async function getSkillhubPayloadAtRevision(
+  octokit: Octokit,
+  gistId: string,
+  revision: string
+) {
+  const gist = await withGitHubRetry("gists.getRevision", () =>
+    octokit.gists.getRevision({ gist_id: gistId, sha: revision })
+  );
+  return decodeSkillhubContent(await readSkillhubFile(octokit, gist.data.files));
 }
 
 export async function createSkillhubGist(
   octokit: Octokit,
   payload: SkillhubPayload
 ) {
+  const content = await encodeSkillhubPayload(payload);
   const response = await withGitHubRetry("gists.create", () =>
     octokit.gists.create({
       description: "SkillHub sync",
       public: false,
       files: {
         [SKILLHUB_FILENAME]: {
-          content: JSON.stringify(payload, null, 2),
+          content,
         },
       },
     })
@@ -115,16 +240,39 @@ export async function createSkillhubGist(
 export async function updateSkillhubGist(
   octokit: Octokit,
   gistId: string,
-  payload: SkillhubPayload
+  payload: SkillhubPayload,
+  options: { expectedRevision?: string | null } = {}
 ) {
-  await withGitHubRetry("gists.update", () =>
+  // Gists have no conditional update, so re-check the revision right before writing. The
+  // current content also tells whether the remote is encrypted.
+  const current = await withGitHubRetry("gists.get", () =>
+    octokit.gists.get({ gist_id: gistId })
+  );
+  if (options.expectedRevision) {
+    const currentRevision = getGistRevision(current.data);
+    if (currentRevision !== options.expectedRevision) {
+      throw new RemoteConflictError(
+        `Remote skillhub.json changed since it was read (expected revision ${options.expectedRevision}, found ${currentRevision ?? "unknown"}).`
+      );
+    }
+  }
+
+  const content = await encodeSkillhubPayload(
+    payload,
+    await readSkillhubFile(octokit, current.data.files)
+  );
+  const response = await withGitHubRetry("gists.update", () =>
     octokit.gists.update({
       gist_id: gistId,
       files: {
         [SKILLHUB_FILENAME]: {
-          content: JSON.stringify(payload, null, 2),
+          content,
         },
       },
     })
   );
+
+  return {
+    revision: getGistRevision(response.data as GistDetail),
+  };
 }
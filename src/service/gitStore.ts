@@ -0,0 +1,283 @@
+import { execFile } from "node:child_process";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { promisify } from "node:util";
+import { diffSkills, normalizeSkills } from "@/core/syncCore";
+import {
+  SkillhubPayload,
+  SkillhubRevision,
+  SkillInfo,
+} from "@/service/gistService";
+import { decodeSkillhubContent, encodeSkillhubPayload } from "@/service/payloadCodec";
+import type { RemoteStore } from "@/service/remoteStore";
+import {
+  isInvalidPayloadError,
+  PayloadValidationError,
+  RemoteConflictError,
+} from "@/utils/errors";
+
+const execFileAsync = promisify(execFile);
+
+const GIT_COMMAND = "git";
+const COMMAND_TIMEOUT_MS = 120_000;
+const COMMAND_MAX_BUFFER = 10 * 1024 * 1024;
+const DEFAULT_AUTHOR_NAME = "skillhub";
+const DEFAULT_AUTHOR_EMAIL = "skillhub@localhost";
+const PUSH_REJECTED_PATTERN = /non-fast-forward|\[rejected\]|fetch first|stale info/i;
+
+export type GitRemoteOptions = {
+  // Anything `git clone` accepts: a URL, an scp-style address or a local path.
+  repository: string;
+  branch: string;
+  filePath: string;
+  // Bare repository used as a local mirror of the remote branch.
+  cacheDir: string;
+};
+
+type GitResult = { stdout: string; stderr: string };
+
+async function runGit(
+  args: string[],
+  options: { cwd?: string; input?: string; env?: NodeJS.ProcessEnv } = {}
+): Promise<GitResult> {
+  const pending = execFileAsync(GIT_COMMAND, args, {
+    cwd: options.cwd,
+    env: { ...process.env, ...options.env },
+    timeout: COMMAND_TIMEOUT_MS,
+    maxBuffer: COMMAND_MAX_BUFFER,
+  });
+  if (options.input !== undefined) {
+    pending.child.stdin?.end(options.input);
+  }
+  return pending;
+}
+
+function describeGitError(error: unknown) {
+  const candidate = error as { stderr?: string; message?: string };
+  return (candidate?.stderr || candidate?.message || String(error)).trim();
+}
+
+function formatSkillLines(skills: SkillInfo[]) {
+  return skills.map((skill) => `- ${skill.name} (${skill.source})`);
+}
+
+function buildCommitMessage(
+  filePath: string,
+  payload: SkillhubPayload,
+  previous: SkillhubPayload | null
+) {
+  const { added, removed } = diffSkills(
+    normalizeSkills(payload.skills),
+    normalizeSkills(previous?.skills ?? [])
+  );
+  if (added.length === 0 && removed.length === 0) {
+    return `Update ${filePath} (no skill changes)`;
+  }
+
+  const lines = [`Update ${filePath} (+${added.length} -${removed.length})`];
+  if (added.length > 0) {
+    lines.push("", "Added:", ...formatSkillLines(added));
+  }
+  if (removed.length > 0) {
+    lines.push("", "Removed:", ...formatSkillLines(removed));
+  }
+  return lines.join("\n");
+}
+
+export function createGitRemoteStore(options: GitRemoteOptions): RemoteStore {
+  const { repository, branch, filePath, cacheDir } = options;
+  const branchRef = `refs/heads/${branch}`;
+  const trackingRef = `refs/remotes/origin/${branch}`;
+
+  const git = (args: string[], extra: { input?: string; env?: NodeJS.ProcessEnv } = {}) =>
+    runGit(args, { cwd: cacheDir, ...extra });
+
+  const ensureMirror = async () => {
+    try {
+      await fs.access(path.join(cacheDir, "HEAD"));
+      await git(["remote", "set-url", "origin", repository]);
+    } catch {
+      await fs.mkdir(cacheDir, { recursive: true });
+      await git(["init", "--bare", "--quiet"]);
+      await git(["remote", "add", "origin", repository]);
+    }
+  };
+
+  // Fetches the branch and returns its head commit, or null when the branch does not exist yet.
+  const refresh = async () => {
+    await ensureMirror();
+    let listing: GitResult;
+    try {
+      listing = await git(["ls-remote", "origin", branchRef]);
+    } catch (error) {
+      throw new Error(`Failed to reach git remote ${repository}: ${describeGitError(error)}`);
+    }
+
+    const head = listing.stdout.trim().split(/\s+/)[0];
+    if (!head) {
+      return null;
+    }
+    await git(["fetch", "--quiet", "origin", `+${branchRef}:${trackingRef}`]);
+    return head;
+  };
+
+  const readFileAt = async (commit: string) => {
+    try {
+      const { stdout } = await git(["show", `${commit}:${filePath}`]);
+      return stdout;
+    } catch {
+      return null;
+    }
+  };
+
+  const resolveIdentityEnv = async (): Promise<NodeJS.ProcessEnv> => {
+    const readConfig = async (key: string) => {
+      try {
+        return (await git(["config", "--get", key])).stdout.trim();
+      } catch {
+        return "";
+      }
+    };
+    const name = process.env.GIT_AUTHOR_NAME || (await readConfig("user.name"));
+    const email = process.env.GIT_AUTHOR_EMAIL || (await readConfig("user.email"));
+    return {
+      GIT_AUTHOR_NAME: name || DEFAULT_AUTHOR_NAME,
+      GIT_AUTHOR_EMAIL: email || DEFAULT_AUTHOR_EMAIL,
+      GIT_COMMITTER_NAME: process.env.GIT_COMMITTER_NAME || name || DEFAULT_AUTHOR_NAME,
+      GIT_COMMITTER_EMAIL: process.env.GIT_COMMITTER_EMAIL || email || DEFAULT_AUTHOR_EMAIL,
+    };
+  };
+
+  // The previous payload only feeds the commit message; an unreadable one is being replaced.
+  const readPreviousPayload = async (content: string | null) => {
+    if (!content) {
+      return null;
+    }
+    try {
+      return await decodeSkillhubContent(content);
+    } catch (error) {
+      if (isInvalidPayloadError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  const commitPayload = async (parent: string | null, payload: SkillhubPayload) => {
+    const previousContent = parent ? await readFileAt(parent) : null;
+    const previous = await readPreviousPayload(previousContent);
+
+    const blob = (
+      await git(["hash-object", "-w", "--stdin"], {
+        input: await encodeSkillhubPayload(payload, previousContent),
+      })
+    ).stdout.trim();
+
+    const indexEnv = { GIT_INDEX_FILE: path.join(cacheDir, `skillhub-index-${process.pid}`) };
+    let tree: string;
+    try {
+      await git(parent ? ["read-tree", parent] : ["read-tree", "--empty"], { env: indexEnv });
+      await git(["update-index", "--add", "--cacheinfo", `100644,${blob},${filePath}`], {
+        env: indexEnv,
+      });
+      tree = (await git(["write-tree"], { env: indexEnv })).stdout.trim();
+    } finally {
+      await fs.rm(indexEnv.GIT_INDEX_FILE, { force: true });
+    }
+
+    const commitArgs = ["commit-tree", tree, "-F", "-"];
+    if (parent) {
+      commitArgs.push("-p", parent);
+    }
+    const commit = (
+      await git(commitArgs, {
+        input: buildCommitMessage(filePath, payload, previous),
+        env: await resolveIdentityEnv(),
+      })
+    ).stdout.trim();
+
+    try {
+      await git(["push", "--quiet", "origin", `${commit}:${branchRef}`]);
+    } catch (error) {
+      const message = describeGitError(error);
+      if (PUSH_REJECTED_PATTERN.test(message)) {
+        throw new RemoteConflictError(
+          `Push to ${repository} (${branch}) was rejected because the branch moved: ${message}`
+        );
+      }
+      throw new Error(`Failed to push to ${repository} (${branch}): ${message}`);
+    }
+    return commit;
+  };
+
+  const readSnapshot = async () => {
+    const head = await refresh();
+    const content = head ? await readFileAt(head) : null;
+    return {
+      head,
+      payload: content === null ? null : await decodeSkillhubContent(content),
+    };
+  };
+
+  return {
+    kind: "git",
+    url: `git+${repository}#branch=${branch}&path=${filePath}`,
+    async locate(locateOptions = {}) {
+      const head = await refresh();
+      const content = head ? await readFileAt(head) : null;
+      if (content === null) {
+        return { id: null, payload: null, revision: null, corrupt: false };
+      }
+
+      try {
+        const payload = await decodeSkillhubContent(content);
+        if (!payload) {
+          throw new PayloadValidationError([{ path: "$", message: "file is empty" }]);
+        }
+        return { id: repository, payload, revision: head, corrupt: false };
+      } catch (error) {
+        if (locateOptions.recreate && isInvalidPayloadError(error)) {
+          return { id: repository, payload: null, revision: head, corrupt: true };
+        }
+        throw error;
+      }
+    },
+    async read() {
+      const snapshot = await readSnapshot();
+      return { payload: snapshot.payload, revision: snapshot.head };
+    },
+    async create(payload) {
+      const head = await refresh();
+      const revision = await commitPayload(head, payload);
+      return { id: repository, revision };
+    },
+    async write(_id, payload, writeOptions = {}) {
+      const head = await refresh();
+      if (writeOptions.expectedRevision && head !== writeOptions.expectedRevision) {
+        throw new RemoteConflictError(
+          `Branch ${branch} of ${repository} moved since it was read (expected ${writeOptions.expectedRevision}, found ${head ?? "none"}).`
+        );
+      }
+      return { revision: await commitPayload(head, payload) };
+    },
+    async history(): Promise<SkillhubRevision[]> {
+      const head = await refresh();
+      if (!head) {
+        return [];
+      }
+      const { stdout } = await git(["log", "--format=%H%x09%cI", head, "--", filePath]);
+      return stdout
+        .split("\n")
+        .filter((line) => line.trim().length > 0)
+        .map((line) => {
+          const [revision, committedAt] = line.split("\t");
+          return { revision: revision!, committedAt: committedAt ?? null };
+        });
+    },
+    async readRevision(_id, revision) {
+      await refresh();
+      const content = await readFileAt(revision);
+      return content === null ? null : decodeSkillhubContent(content);
+    },
+  };
+}
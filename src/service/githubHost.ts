@@ -0,0 +1,54 @@
+import { configStore } from "@/service/config";
+
+export const DEFAULT_GITHUB_API_URL = "https://api.github.com";
+export const DEFAULT_GITHUB_HOST = "github.com";
+const API_URL_ENV_VAR = "SKILLHUB_GITHUB_API_URL";
+
+// Accepts a bare hostname (`github.example.com`) or a full API URL and returns the API base URL.
+export function normalizeGitHubBaseUrl(hostnameOrUrl: string) {
+  const trimmed = hostnameOrUrl.trim().replace(/\/+$/, "");
+  if (!trimmed) {
+    throw new Error("GitHub hostname must not be empty.");
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    throw new Error(`Invalid GitHub hostname "${hostnameOrUrl}".`);
+  }
+
+  if (url.host === DEFAULT_GITHUB_HOST || url.host === "api.github.com") {
+    return DEFAULT_GITHUB_API_URL;
+  }
+  if (url.pathname === "/" || url.pathname === "") {
+    // GitHub Enterprise Server serves the REST API under /api/v3.
+    return `${url.protocol}//${url.host}/api/v3`;
+  }
+  return `${url.protocol}//${url.host}${url.pathname.replace(/\/+$/, "")}`;
+}
+
+export function getGitHubHost(baseUrl: string) {
+  if (baseUrl === DEFAULT_GITHUB_API_URL) {
+    return DEFAULT_GITHUB_HOST;
+  }
+  return new URL(baseUrl).host;
+}
+
+// Web origin of the host (where `/login/...` lives), derived from its API base URL.
+export function getGitHubWebUrl(baseUrl: string) {
+  if (baseUrl === DEFAULT_GITHUB_API_URL) {
+    return `https://${DEFAULT_GITHUB_HOST}`;
+  }
+  const url = new URL(baseUrl);
+  return `${url.protocol}//${url.host}`;
+}
+
+// `SKILLHUB_GITHUB_API_URL` wins over the host stored at `auth login --hostname`.
+export async function resolveGitHubBaseUrl() {
+  const fromEnv = process.env[API_URL_ENV_VAR];
+  if (fromEnv) {
+    return normalizeGitHubBaseUrl(fromEnv);
+  }
+  return (await configStore.getGitHubBaseUrl()) ?? DEFAULT_GITHUB_API_URL;
+}
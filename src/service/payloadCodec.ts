@@ -0,0 +1,136 @@
+import { configStore } from "@/service/config";
+import {
+  parseSkillhubContent,
+  serializeSkillhubPayload,
+  SkillhubPayload,
+} from "@/service/gistService";
+import {
+  decryptWithPassphrase,
+  encryptWithPassphrase,
+  EncryptedEnvelope,
+  isEncryptedEnvelope,
+} from "@/utils/crypto";
+import { CliError, getErrorCode } from "@/utils/errors";
+import { readPassphrase } from "@/utils/passphrase";
+
+export const ENCRYPTED_PAYLOAD_FORMAT = "skillhub-encrypted";
+export const PAYLOAD_PASSPHRASE_ENV_VAR = "SKILLHUB_PAYLOAD_PASSPHRASE";
+const ENCRYPTED_PAYLOAD_VERSION = 1;
+
+// What is stored in skillhub.json when payload encryption is enabled.
+export type EncryptedPayloadDocument = {
+  format: typeof ENCRYPTED_PAYLOAD_FORMAT;
+  version: number;
+  envelope: EncryptedEnvelope;
+};
+
+// Remembered after the first successful use so one run prompts at most once.
+let cachedPassphrase: string | undefined;
+
+function parseEncryptedDocument(content: string): EncryptedPayloadDocument | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return null;
+  }
+
+  const candidate = parsed as Partial<EncryptedPayloadDocument> | null;
+  if (candidate?.format !== ENCRYPTED_PAYLOAD_FORMAT) {
+    return null;
+  }
+  if (candidate.version !== ENCRYPTED_PAYLOAD_VERSION) {
+    throw new CliError(
+      "UNSUPPORTED_PAYLOAD",
+      `Encrypted skillhub.json uses unsupported version ${String(candidate.version)}. Upgrade skillhub.`
+    );
+  }
+  if (!isEncryptedEnvelope(candidate.envelope)) {
+    throw new CliError(
+      "CORRUPT_PAYLOAD",
+      "Encrypted skillhub.json is corrupt: the envelope is missing or malformed."
+    );
+  }
+  return candidate as EncryptedPayloadDocument;
+}
+
+// Only checks the format marker, so a remote with a damaged envelope still counts as encrypted.
+export function isEncryptedPayloadContent(content: string | null | undefined) {
+  if (!content) {
+    return false;
+  }
+  try {
+    const parsed = JSON.parse(content) as { format?: unknown } | null;
+    return parsed?.format === ENCRYPTED_PAYLOAD_FORMAT;
+  } catch {
+    return false;
+  }
+}
+
+async function getPassphrase(confirm: boolean) {
+  if (cachedPassphrase === undefined) {
+    return readPassphrase({
+      envVar: PAYLOAD_PASSPHRASE_ENV_VAR,
+      message: "Passphrase for the encrypted skillhub.json payload:",
+      confirm,
+    });
+  }
+  return cachedPassphrase;
+}
+
+// `previousContent` is what the remote holds now: an encrypted remote stays encrypted even
+// when this profile has encryption off, so it is never re-uploaded in plaintext.
+export async function encodeSkillhubPayload(
+  payload: SkillhubPayload,
+  previousContent?: string | null
+) {
+  const plaintext = serializeSkillhubPayload(payload);
+  const encrypt =
+    (await configStore.getPayloadEncryption()) || isEncryptedPayloadContent(previousContent);
+  if (!encrypt) {
+    return plaintext;
+  }
+
+  const passphrase = await getPassphrase(true);
+  cachedPassphrase = passphrase;
+  const document: EncryptedPayloadDocument = {
+    format: ENCRYPTED_PAYLOAD_FORMAT,
+    version: ENCRYPTED_PAYLOAD_VERSION,
+    envelope: encryptWithPassphrase(plaintext, passphrase),
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+// Plain payloads are parsed as before; encrypted ones are decrypted first.
+export async function decodeSkillhubContent(content: string | undefined) {
+  const document = content ? parseEncryptedDocument(content) : null;
+  if (!document) {
+    return parseSkillhubContent(content);
+  }
+
+  const passphrase = await getPassphrase(false);
+  let plaintext: string;
+  try {
+    plaintext = decryptWithPassphrase(document.envelope, passphrase);
+  } catch (error) {
+    if (getErrorCode(error) === "WRONG_PASSPHRASE") {
+      cachedPassphrase = undefined;
+      throw new CliError(
+        "WRONG_PASSPHRASE",
+        `Wrong passphrase for the encrypted skillhub.json payload. Check ${PAYLOAD_PASSPHRASE_ENV_VAR} or re-enter it.`
+      );
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new CliError("CORRUPT_PAYLOAD", `Encrypted skillhub.json is corrupt: ${message}`);
+  }
+
+  cachedPassphrase = passphrase;
+  const payload = parseSkillhubContent(plaintext);
+  if (!payload) {
+    throw new CliError(
+      "CORRUPT_PAYLOAD",
+      "Encrypted skillhub.json decrypted, but its content is not a valid payload."
+    );
+  }
+  return payload;
+}
@@ -0,0 +1,328 @@
+import { createHash } from "node:crypto";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { configStore } from "@/service/config";
+import { createFileRemoteStore } from "@/service/fileStore";
+import {
+  createOctokit,
+  createSkillhubGist,
+  getSkillhubPayloadAtRevision,
+  getSkillhubRevision,
+  getSkillhubSnapshot,
+  listSkillhubGists,
+  listSkillhubRevisions,
+  SkillhubPayload,
+  SkillhubRevision,
+  SkillhubSnapshot,
+  SKILLHUB_FILENAME,
+  updateSkillhubGist,
+  verifyToken,
+} from "@/service/gistService";
+import { resolveGitHubBaseUrl } from "@/service/githubHost";
+import { createGitRemoteStore } from "@/service/gitStore";
+import { resolveToken, TOKEN_ENV_VAR } from "@/service/token";
+import { CliError, getErrorCode, isInvalidPayloadError } from "@/utils/errors";
+
+export const GIST_REMOTE = "gist";
+const GIT_REMOTE_PREFIX = "git+";
+const DEFAULT_GIT_BRANCH = "main";
+
+export type RemoteKind = "gist" | "file" | "git";
+
+// Result of looking up the remote: `id` is null when nothing exists there yet.
+export type RemoteLocation = SkillhubSnapshot & {
+  id: string | null;
+  // The remote exists but its payload is unreadable and will be replaced (`--recreate`).
+  corrupt: boolean;
+};
+
+export type LocateOptions = {
+  // Accept an unreadable payload as empty so the next upload overwrites it.
+  recreate?: boolean;
+  // Only look: the pinned gist id is neither remembered nor cleared, and nothing is printed.
+  readOnly?: boolean;
+};
+
+// Outcome of reading one gist, so each failure gets its own decision instead of "no gist".
+export type RemoteReadOutcome =
+  | { kind: "found"; snapshot: SkillhubSnapshot }
+  | { kind: "not-found" }
+  | { kind: "unauthorized"; message: string }
+  | { kind: "invalid-payload"; code: string; message: string }
+  | { kind: "network"; message: string };
+
+export type RemoteStore = {
+  kind: RemoteKind;
+  // Remote URL as accepted by `--remote` (for example `gist` or `file:///path`).
+  url: string;
+  locate: (options?: LocateOptions) => Promise<RemoteLocation>;
+  read: (id: string) => Promise<SkillhubSnapshot>;
+  create: (payload: SkillhubPayload) => Promise<{ id: string; revision: string | null }>;
+  write: (
+    id: string,
+    payload: SkillhubPayload,
+    options?: { expectedRevision?: string | null }
+  ) => Promise<{ revision: string | null }>;
+  history: (id: string) => Promise<SkillhubRevision[]>;
+  readRevision: (id: string, revision: string) => Promise<SkillhubPayload | null>;
+};
+
+let remoteOverride: string | undefined;
+
+export function setRemoteOverride(url: string | undefined) {
+  if (url !== undefined) {
+    parseRemoteUrl(url);
+  }
+  remoteOverride = url;
+}
+
+export function parseRemoteUrl(url: string) {
+  if (url === GIST_REMOTE || url === "gist://") {
+    return { kind: "gist" as const };
+  }
+
+  if (url.startsWith("file://")) {
+    let directory: string;
+    try {
+      directory = fileURLToPath(url);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid file remote "${url}": ${message}`);
+    }
+    return { kind: "file" as const, directory };
+  }
+
+  if (url.startsWith(GIT_REMOTE_PREFIX)) {
+    return { kind: "git" as const, ...parseGitRemote(url) };
+  }
+
+  throw new Error(
+    `Unsupported remote "${url}". Use "gist", file:///absolute/path or git+<repository>.`
+  );
+}
+
+// `git+<repository>[#branch=<name>&path=<file>]`, e.g. `git+ssh://git@host/me/skills.git#branch=main`.
+function parseGitRemote(url: string) {
+  const hashIndex = url.indexOf("#");
+  const repository = url.slice(
+    GIT_REMOTE_PREFIX.length,
+    hashIndex === -1 ? undefined : hashIndex
+  );
+  if (!repository) {
+    throw new Error(`Invalid git remote "${url}": repository is missing.`);
+  }
+
+  const params = new URLSearchParams(hashIndex === -1 ? "" : url.slice(hashIndex + 1));
+  for (const key of params.keys()) {
+    if (key !== "branch" && key !== "path") {
+      throw new Error(`Invalid git remote "${url}": unknown option "${key}".`);
+    }
+  }
+
+  const branch = params.get("branch") || DEFAULT_GIT_BRANCH;
+  const filePath = path.posix.normalize(params.get("path") || SKILLHUB_FILENAME);
+  if (filePath.startsWith("/") || filePath.startsWith("..") || filePath === ".") {
+    throw new Error(
+      `Invalid git remote "${url}": path must be a file inside the repository.`
+    );
+  }
+
+  return { repository, branch, filePath };
+}
+
+function getGitCacheDir(repository: string) {
+  const digest = createHash("sha256").update(repository).digest("hex").slice(0, 16);
+  return path.join(os.homedir(), ".cache", "skillhub", "git", digest);
+}
+
+export async function ensureToken(baseUrl?: string) {
+  const { token, source } = await resolveToken();
+  if (!token) {
+    throw new Error(
+      `You must login first. Run \`skillhub auth login\` or set ${TOKEN_ENV_VAR}, and try again.`
+    );
+  }
+
+  // Stored tokens were verified at login; an env token is checked the same way before first use.
+  if (source === "env") {
+    try {
+      await verifyToken(token, baseUrl);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `${TOKEN_ENV_VAR} is invalid or cannot access the Gist API: ${message}`
+      );
+    }
+  }
+  return token;
+}
+
+function getHttpStatus(error: unknown) {
+  // retryAsync wraps the final error; the Octokit error with `status` is its cause.
+  const candidate = error as { status?: number; cause?: { status?: number } };
+  return candidate?.status ?? candidate?.cause?.status;
+}
+
+export async function readGistOutcome(
+  octokit: ReturnType<typeof createOctokit>,
+  gistId: string
+): Promise<RemoteReadOutcome> {
+  let snapshot: SkillhubSnapshot;
+  try {
+    snapshot = await getSkillhubSnapshot(octokit, gistId);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (isInvalidPayloadError(error)) {
+      return { kind: "invalid-payload", code: getErrorCode(error)!, message };
+    }
+    if (getErrorCode(error)) {
+      throw error;
+    }
+
+    const status = getHttpStatus(error);
+    if (status === 404) {
+      return { kind: "not-found" };
+    }
+    if (status === 401 || status === 403) {
+      return { kind: "unauthorized", message };
+    }
+    return { kind: "network", message };
+  }
+
+  if (!snapshot.payload) {
+    return {
+      kind: "invalid-payload",
+      code: "INVALID_PAYLOAD",
+      message: `Gist ${gistId} has no ${SKILLHUB_FILENAME} file.`,
+    };
+  }
+  return { kind: "found", snapshot };
+}
+
+export function toReadError(gistId: string, outcome: Exclude<RemoteReadOutcome, { kind: "found" }>) {
+  switch (outcome.kind) {
+    case "not-found":
+      return new CliError("REMOTE_NOT_FOUND", `Gist ${gistId} was not found.`);
+    case "unauthorized":
+      return new CliError(
+        "REMOTE_UNAUTHORIZED",
+        `Access to gist ${gistId} was denied: ${outcome.message}. Check the token with \`skillhub auth status\`.`
+      );
+    case "invalid-payload":
+      return new CliError(
+        outcome.code,
+        `${outcome.message}\nRemote ${SKILLHUB_FILENAME} in gist ${gistId} is unreadable. Fix it, or rerun with --recreate to replace it with your local skills.`
+      );
+    case "network":
+      return new CliError(
+        "REMOTE_UNREACHABLE",
+        `Could not reach gist ${gistId}: ${outcome.message}. Nothing was changed; retry later.`
+      );
+  }
+}
+
+export function createGistRemoteStore(token: string, baseUrl?: string): RemoteStore {
+  const octokit = createOctokit(token, baseUrl);
+
+  const locateGist = async (gistId: string, options: LocateOptions) => {
+    const outcome = await readGistOutcome(octokit, gistId);
+    if (outcome.kind === "found") {
+      return { id: gistId, ...outcome.snapshot, corrupt: false };
+    }
+    if (outcome.kind === "not-found") {
+      return null;
+    }
+    if (outcome.kind === "invalid-payload" && options.recreate) {
+      const revision = await getSkillhubRevision(octokit, gistId);
+      return { id: gistId, payload: null, revision, corrupt: true };
+    }
+    throw toReadError(gistId, outcome);
+  };
+
+  return {
+    kind: "gist",
+    url: GIST_REMOTE,
+    async locate(options = {}) {
+      const configuredId = await configStore.getGistId();
+      if (configuredId) {
+        const location = await locateGist(configuredId, options);
+        if (location) {
+          return location;
+        }
+        // Only a confirmed 404 drops the configured gist.
+        if (!options.readOnly) {
+          await configStore.clearGistId();
+        }
+      }
+
+      const candidates = await listSkillhubGists(octokit);
+      const found = candidates[0];
+      if (found) {
+        const location = await locateGist(found.id, options);
+        if (location && options.readOnly) {
+          return location;
+        }
+        if (location) {
+          if (candidates.length > 1) {
+            console.warn(
+              `Found ${candidates.length} SkillHub gists and none is pinned; using ${found.id} (most recently updated).`
+            );
+            console.warn(
+              "  Run `skillhub gist list` to review them and `skillhub gist use <id>` to pick another."
+            );
+          }
+          await configStore.setGistId(found.id);
+          return location;
+        }
+      }
+
+      return { id: null, payload: null, revision: null, corrupt: false };
+    },
+    async read(gistId) {
+      return getSkillhubSnapshot(octokit, gistId);
+    },
+    async create(payload) {
+      const created = await createSkillhubGist(octokit, payload);
+      if (!created.id) {
+        throw new Error("Gist was created, but the ID could not be determined.");
+      }
+      await configStore.setGistId(created.id);
+      return {
+        id: created.id,
+        revision: created.history?.[0]?.version ?? null,
+      };
+    },
+    async write(gistId, payload, options = {}) {
+      return updateSkillhubGist(octokit, gistId, payload, options);
+    },
+    async history(gistId) {
+      return listSkillhubRevisions(octokit, gistId);
+    },
+    async readRevision(gistId, revision) {
+      return getSkillhubPayloadAtRevision(octokit, gistId, revision);
+    },
+  };
+}
+
+// Resolves the backend from `--remote`, then the profile config, then the default gist.
+export async function openRemoteStore(): Promise<RemoteStore> {
+  const url = remoteOverride ?? (await configStore.getRemote()) ?? GIST_REMOTE;
+  const parsed = parseRemoteUrl(url);
+
+  if (parsed.kind === "file") {
+    return createFileRemoteStore(parsed.directory);
+  }
+
+  if (parsed.kind === "git") {
+    return createGitRemoteStore({
+      repository: parsed.repository,
+      branch: parsed.branch,
+      filePath: parsed.filePath,
+      cacheDir: getGitCacheDir(parsed.repository),
+    });
+  }
+
+  const baseUrl = await resolveGitHubBaseUrl();
+  return createGistRemoteStore(await ensureToken(baseUrl), baseUrl);
+}
@@ -0,0 +1,114 @@
+import { parseSkillSelector, skillKey } from "@/core/syncCore";
+import { configStore } from "@/service/config";
+import { hashSkillFolder } from "@/service/embeddedSkills";
+import { SkillInfo } from "@/service/gistService";
+import { getSkillRoots, scanSkillRoots } from "@/service/skillScan";
+import type { InstallFailure } from "@/service/skillsService";
+
+// `unknown`: installed, but not by skillhub (or before hashes were recorded).
+export type SkillIntegrityState = "unmodified" | "modified" | "missing" | "unknown";
+
+export type SkillIntegrity = {
+  skill: SkillInfo;
+  state: SkillIntegrityState;
+  path: string | null;
+  recordedHash: string | null;
+  currentHash: string | null;
+};
+
+async function findSkillFolders() {
+  const { roots } = await getSkillRoots();
+  const { skills } = await scanSkillRoots(roots);
+  return new Map(skills.map((skill) => [skill.name, skill.path]));
+}
+
+// Hashes the folder of each freshly installed skill; skills whose folder is not found are forgotten.
+export async function recordInstalledHashes(skills: SkillInfo[]) {
+  if (skills.length === 0) {
+    return;
+  }
+  const folders = await findSkillFolders();
+  const hashes = { ...(await configStore.getInstalledHashes()) };
+  for (const skill of skills) {
+    const folder = folders.get(skill.name);
+    if (folder) {
+      hashes[skillKey(skill)] = await hashSkillFolder(folder);
+    } else {
+      delete hashes[skillKey(skill)];
+    }
+  }
+  await configStore.setInstalledHashes(hashes);
+}
+
+export async function forgetInstalledHashes(skills: SkillInfo[]) {
+  if (skills.length === 0) {
+    return;
+  }
+  const hashes = { ...(await configStore.getInstalledHashes()) };
+  for (const skill of skills) {
+    delete hashes[skillKey(skill)];
+  }
+  await configStore.setInstalledHashes(hashes);
+}
+
+// Compares each skill folder with the hash recorded when skillhub installed it.
+export async function checkSkillIntegrity(skills: SkillInfo[]): Promise<SkillIntegrity[]> {
+  const folders = await findSkillFolders();
+  const hashes = await configStore.getInstalledHashes();
+
+  const results: SkillIntegrity[] = [];
+  for (const skill of skills) {
+    const folder = folders.get(skill.name) ?? null;
+    const recordedHash = hashes[skillKey(skill)] ?? null;
+    const currentHash = folder ? await hashSkillFolder(folder) : null;
+
+    let state: SkillIntegrityState;
+    if (!recordedHash) {
+      state = "unknown";
+    } else if (!currentHash) {
+      state = "missing";
+    } else {
+      state = currentHash === recordedHash ? "unmodified" : "modified";
+    }
+    results.push({ skill, state, path: folder, recordedHash, currentHash });
+  }
+  return results;
+}
+
+// Installed skills plus those with a recorded hash that are no longer listed.
+export async function listTrackedSkills(localSkills: SkillInfo[]) {
+  const localKeys = new Set(localSkills.map(skillKey));
+  const recorded = Object.keys(await configStore.getInstalledHashes())
+    .filter((key) => !localKeys.has(key))
+    .map((key) => {
+      const { name, source } = parseSkillSelector(key);
+      return { name, source: source! };
+    });
+  return [...localSkills, ...recorded];
+}
+
+// Candidates that would overwrite a hand-edited skill of the same name are held back.
+export async function holdBackModifiedSkills(
+  candidates: SkillInfo[],
+  localSkills: SkillInfo[]
+) {
+  const candidateNames = new Set(candidates.map((skill) => skill.name));
+  const modified = (
+    await checkSkillIntegrity(localSkills.filter((skill) => candidateNames.has(skill.name)))
+  ).filter((result) => result.state === "modified");
+
+  const heldBack: InstallFailure[] = [];
+  const allowed: SkillInfo[] = [];
+  for (const skill of candidates) {
+    const edited = modified.find((result) => result.skill.name === skill.name);
+    if (edited) {
+      heldBack.push({
+        skill,
+        reason: `Locally modified: ${edited.path} changed since skillhub installed ${skillKey(edited.skill)}. Rerun with --force to overwrite it, or run \`skillhub verify\` to review.`,
+      });
+    } else {
+      allowed.push(skill);
+    }
+  }
+  return { heldBack, allowed };
+}
@@ -0,0 +1,69 @@
+import { Octokit } from "@octokit/rest";
+import { createOctokit, SkillInfo } from "@/service/gistService";
+import { DEFAULT_GITHUB_API_URL, resolveGitHubBaseUrl } from "@/service/githubHost";
+import { resolveToken } from "@/service/token";
+import { CliError } from "@/utils/errors";
+import { isTransientError, retryAsync } from "@/utils/retry";
+
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{40}$/i;
+
+function withRetry<T>(label: string, fn: () => Promise<T>) {
+  return retryAsync(fn, { label, shouldRetry: isTransientError });
+}
+
+export function isCommitSha(ref: string) {
+  return COMMIT_SHA_PATTERN.test(ref);
+}
+
+// Skill sources live on github.com; a token for another GitHub host would be rejected there.
+export async function createSkillSourceOctokit() {
+  const baseUrl = await resolveGitHubBaseUrl();
+  const { token } =
+    baseUrl === DEFAULT_GITHUB_API_URL ? await resolveToken() : { token: null };
+  return createOctokit(token ?? undefined, DEFAULT_GITHUB_API_URL);
+}
+
+// Resolves a branch, tag or SHA prefix (default: the default branch) to a full commit SHA.
+export async function resolveCommitSha(octokit: Octokit, source: string, ref?: string) {
+  if (ref && isCommitSha(ref)) {
+    return ref.toLowerCase();
+  }
+
+  const [owner, repo] = source.split("/");
+  try {
+    let target = ref;
+    if (!target) {
+      const repository = await withRetry("repos.get", () =>
+        octokit.repos.get({ owner: owner!, repo: repo! })
+      );
+      target = repository.data.default_branch;
+    }
+    const commit = await withRetry("repos.getCommit", () =>
+      octokit.repos.getCommit({ owner: owner!, repo: repo!, ref: target! })
+    );
+    return commit.data.sha;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new CliError(
+      "REF_RESOLUTION_FAILED",
+      `Could not resolve ${ref ? `"${ref}"` : "the default branch"} of ${source}: ${message}`
+    );
+  }
+}
+
+// Embedded skills have no upstream repository and are passed through unchanged.
+export async function resolveSkillRefs(skills: SkillInfo[], octokit?: Octokit) {
+  if (skills.every((skill) => skill.embedded)) {
+    return skills;
+  }
+  const client = octokit ?? (await createSkillSourceOctokit());
+  const resolved: SkillInfo[] = [];
+  for (const skill of skills) {
+    resolved.push(
+      skill.embedded
+        ? skill
+        : { ...skill, ref: await resolveCommitSha(client, skill.source, skill.ref) }
+    );
+  }
+  return resolved;
+}
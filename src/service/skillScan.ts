@@ -0,0 +1,126 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { configStore } from "@/service/config";
+
+export const SKILL_ROOTS_ENV_VAR = "SKILLHUB_SKILL_ROOTS";
+const SKILL_FILENAME = "SKILL.md";
+
+// Per-agent directories (relative to the home directory) where installed skills live.
+export const DEFAULT_SKILL_ROOTS = [
+  ".agents/skills",
+  ".claude/skills",
+  ".codex/skills",
+  ".cursor/skills",
+  ".gemini/skills",
+  ".config/opencode/skills",
+];
+
+export type SkillRootsSource = "env" | "config" | "default";
+
+// A skill folder found on disk: `name` comes from SKILL.md frontmatter, else the folder name.
+export type ScannedSkill = {
+  name: string;
+  description: string | null;
+  path: string;
+};
+
+export type SkillScan = {
+  // Roots that exist and were scanned.
+  roots: string[];
+  skills: ScannedSkill[];
+};
+
+function expandHome(directory: string) {
+  if (directory === "~" || directory.startsWith("~/")) {
+    return path.join(os.homedir(), directory.slice(1));
+  }
+  return path.resolve(os.homedir(), directory);
+}
+
+// `SKILLHUB_SKILL_ROOTS` (separated by the platform path delimiter) wins over `roots set`.
+export async function getSkillRoots(): Promise<{
+  roots: string[];
+  source: SkillRootsSource;
+}> {
+  const fromEnv = process.env[SKILL_ROOTS_ENV_VAR]
+    ?.split(path.delimiter)
+    .map((item) => item.trim())
+    .filter(Boolean);
+  if (fromEnv && fromEnv.length > 0) {
+    return { roots: fromEnv.map(expandHome), source: "env" };
+  }
+
+  const configured = await configStore.getSkillRoots();
+  if (configured && configured.length > 0) {
+    return { roots: configured.map(expandHome), source: "config" };
+  }
+  return { roots: DEFAULT_SKILL_ROOTS.map(expandHome), source: "default" };
+}
+
+function unquote(value: string) {
+  const match = /^(["'])(.*)\1$/.exec(value);
+  return match ? match[2]! : value;
+}
+
+// Reads flat `key: value` pairs from a leading `---` block; nested YAML is ignored.
+export function parseSkillFrontmatter(content: string) {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const fields: Record<string, string> = {};
+  if (lines[0]?.trim() !== "---") {
+    return fields;
+  }
+
+  for (const line of lines.slice(1)) {
+    if (line.trim() === "---") {
+      break;
+    }
+    const match = /^([A-Za-z0-9_-]+):\s*(.*)$/.exec(line);
+    if (match && match[2]) {
+      fields[match[1]!] = unquote(match[2].trim());
+    }
+  }
+  return fields;
+}
+
+async function readSkillFolder(folder: string): Promise<ScannedSkill | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(folder, SKILL_FILENAME), "utf8");
+  } catch {
+    return null;
+  }
+
+  const fields = parseSkillFrontmatter(content);
+  return {
+    name: fields.name || path.basename(folder),
+    description: fields.description || null,
+    path: folder,
+  };
+}
+
+// Agents often link the same skill into several roots; the first root listing a name wins.
+export async function scanSkillRoots(roots: string[]): Promise<SkillScan> {
+  const scannedRoots: string[] = [];
+  const byName = new Map<string, ScannedSkill>();
+
+  for (const root of roots) {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(root);
+    } catch {
+      continue;
+    }
+    scannedRoots.push(root);
+
+    for (const entry of entries.sort()) {
+      if (entry.startsWith(".")) continue;
+      const skill = await readSkillFolder(path.join(root, entry));
+      if (skill && !byName.has(skill.name)) {
+        byName.set(skill.name, skill);
+      }
+    }
+  }
+
+  return { roots: scannedRoots, skills: [...byName.values()] };
+}
@@ -3,19 +3,56 @@ import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 import { promisify } from "node:util";
+import { configStore } from "@/service/config";
 import { SkillInfo } from "@/service/gistService";
-import { normalizeSkills } from "@/core/syncCore";
+import { normalizeSkills, skillKey } from "@/core/syncCore";
+import { readEmbeddedSkills, writeEmbeddedSkill } from "@/service/embeddedSkills";
+import { forgetInstalledHashes, recordInstalledHashes } from "@/service/skillChecksums";
+import { isCommitSha } from "@/service/skillRefs";
+import { getSkillRoots, ScannedSkill, scanSkillRoots } from "@/service/skillScan";
+import { CliError } from "@/utils/errors";
 import { isTransientError, retryAsync } from "@/utils/retry";
 
 const execFileAsync = promisify(execFile);
 
 const SKILLS_LOCK_FILENAMES = ["skills-lock.json", ".skill-lock.json"] as const;
-const DEFAULT_SKILL_SOURCE_REPO = "vercel-labs/agent-skills";
 const NPX_COMMAND = process.platform === "win32" ? "npx.cmd" : "npx";
 const SOURCE_PATTERN = /^[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+$/;
 const COMMAND_TIMEOUT_MS = 120_000;
 const COMMAND_MAX_BUFFER = 10 * 1024 * 1024;
 
+export const INVENTORY_SOURCES = ["json", "lock", "scan", "text"] as const;
+const INVENTORY_SOURCE_ENV_VAR = "SKILLHUB_INVENTORY_SOURCE";
+
+// Strategy that produced the local skill list.
+export type InventorySource = (typeof INVENTORY_SOURCES)[number];
+
+export type InventoryAttempt = {
+  source: InventorySource;
+  status: "used" | "unavailable";
+  detail: string;
+};
+
+export type LocalInventory = {
+  source: InventorySource;
+  skills: SkillInfo[];
+  attempts: InventoryAttempt[];
+  // Listed skills no lock file attributes to a repository; left out of `skills`.
+  unknownSources: string[];
+};
+
+// Skill folders on disk, split by whether the lock file records where they came from.
+export type LocalSkillScan = {
+  roots: string[];
+  skills: SkillInfo[];
+  unsourced: ScannedSkill[];
+};
+
+let inventorySourceOverride: InventorySource | undefined;
+// Embedded copies of unsourced skill folders, read once per run for the same installed
+// names; installs and removals reset it.
+let localEmbeddedSkills: { installedKey: string; skills: SkillInfo[] } | undefined;
+
 export type InstallFailure = {
   skill: SkillInfo;
   reason: string;
@@ -47,8 +84,57 @@ export function isValidSource(source: string) {
   return SOURCE_PATTERN.test(source);
 }
 
+// The skills CLI accepts GitHub tree URLs, which pin the checkout to a branch, tag or SHA.
+export function getInstallSource(skill: SkillInfo) {
+  if (!skill.ref) {
+    return skill.source;
+  }
+  return `https://github.com/${skill.source}/tree/${skill.ref}`;
+}
+
+// Stores each skill's ref, or forgets it when the skill has none.
+export async function recordInstalledRefs(skills: SkillInfo[]) {
+  if (skills.length === 0) {
+    return;
+  }
+  const refs = { ...(await configStore.getInstalledRefs()) };
+  for (const skill of skills) {
+    if (skill.ref) {
+      refs[skillKey(skill)] = skill.ref;
+    } else {
+      delete refs[skillKey(skill)];
+    }
+  }
+  await configStore.setInstalledRefs(refs);
+}
+
+// Stores the commit each skill was installed from; null forgets it.
+export async function recordInstalledCommits(
+  entries: Array<{ skill: SkillInfo; commit: string | null }>
+) {
+  if (entries.length === 0) {
+    return;
+  }
+  const stored = { ...(await configStore.getInstalledCommits()) };
+  for (const { skill, commit } of entries) {
+    if (commit) {
+      stored[skillKey(skill)] = commit;
+    } else {
+      delete stored[skillKey(skill)];
+    }
+  }
+  await configStore.setInstalledCommits(stored);
+}
+
+async function attachInstalledRefs(skills: SkillInfo[]) {
+  const refs = await configStore.getInstalledRefs();
+  return skills.map((skill) => {
+    const ref = refs[skillKey(skill)];
+    return ref ? { ...skill, ref } : skill;
+  });
+}
+
 function getCandidateSkillsLockPaths(filename: string) {
-  const cwdPath = path.resolve(process.cwd(), filename);
   const homePath = path.resolve(os.homedir(), filename);
 
   const homeConfigPaths = [
@@ -69,7 +155,7 @@ function getCandidateSkillsLockPaths(filename: string) {
       : []),
   ];
 
-  return [cwdPath, homePath, ...homeConfigPaths, ...windowsConfigPaths];
+  return [homePath, ...homeConfigPaths, ...windowsConfigPaths];
 }
 
 function getAllCandidateSkillsLockPaths() {
@@ -79,74 +165,82 @@ function getAllCandidateSkillsLockPaths() {
   return [...new Set(paths)];
 }
 
-function parseSkillsLock(raw: string): SkillInfo[] {
-  const parsed = JSON.parse(raw);
+function getProjectSkillsLockPaths() {
+  return SKILLS_LOCK_FILENAMES.map((filename) => path.resolve(process.cwd(), filename));
+}
 
-  const extractSkills = (items: unknown[]): SkillInfo[] => {
-    return items.map((item) => {
-      if (typeof item === "string") {
-        return { name: item, source: DEFAULT_SKILL_SOURCE_REPO };
-      }
+// A parsed skill whose source may still be unknown (text output, sourceless JSON entries).
+type InventoryEntry = {
+  name: string;
+  source?: string;
+};
 
-      if (typeof item === "object" && item !== null) {
-        const objectItem = item as Record<string, unknown>;
-        const name =
-          typeof objectItem.name === "string"
-            ? objectItem.name
-            : typeof objectItem.skill === "string"
-              ? objectItem.skill
-              : String(item);
-        const source =
-          typeof objectItem.source === "string"
-            ? objectItem.source
-            : typeof objectItem.repo === "string"
-              ? objectItem.repo
-              : DEFAULT_SKILL_SOURCE_REPO;
-
-        return { name, source };
-      }
+function readEntrySource(item: Record<string, unknown>) {
+  if (typeof item.source === "string") {
+    return item.source;
+  }
+  return typeof item.repo === "string" ? item.repo : undefined;
+}
 
-      return { name: String(item), source: DEFAULT_SKILL_SOURCE_REPO };
-    });
-  };
+function extractEntries(items: unknown[]): InventoryEntry[] {
+  return items.map((item) => {
+    if (typeof item === "object" && item !== null) {
+      const objectItem = item as Record<string, unknown>;
+      const name =
+        typeof objectItem.name === "string"
+          ? objectItem.name
+          : typeof objectItem.skill === "string"
+            ? objectItem.skill
+            : String(item);
+      return { name, source: readEntrySource(objectItem) };
+    }
+    return { name: String(item) };
+  });
+}
+
+// Shapes shared by lock files and `skills list --json`; null when none matches.
+function parseInventoryDocument(parsed: unknown): InventoryEntry[] | null {
+  const document = parsed as Record<string, unknown> | null;
 
-  if (Array.isArray(parsed?.skills)) {
-    return extractSkills(parsed.skills);
+  if (Array.isArray(parsed)) {
+    return extractEntries(parsed);
   }
 
-  if (parsed?.skills && typeof parsed.skills === "object") {
-    const objectSkills = parsed.skills as Record<string, unknown>;
-    return Object.entries(objectSkills).map(([name, metadata]) => {
-      if (typeof metadata === "object" && metadata !== null) {
-        const objectItem = metadata as Record<string, unknown>;
-        const source =
-          typeof objectItem.source === "string"
-            ? objectItem.source
-            : typeof objectItem.repo === "string"
-              ? objectItem.repo
-              : DEFAULT_SKILL_SOURCE_REPO;
-        return { name, source };
-      }
-      return { name, source: DEFAULT_SKILL_SOURCE_REPO };
-    });
+  if (Array.isArray(document?.skills)) {
+    return extractEntries(document.skills);
   }
 
-  if (Array.isArray(parsed)) {
-    return extractSkills(parsed);
+  if (document?.skills && typeof document.skills === "object") {
+    const objectSkills = document.skills as Record<string, unknown>;
+    return Object.entries(objectSkills).map(([name, metadata]) => ({
+      name,
+      source:
+        typeof metadata === "object" && metadata !== null
+          ? readEntrySource(metadata as Record<string, unknown>)
+          : undefined,
+    }));
   }
 
-  if (Array.isArray(parsed?.installedSkills)) {
-    return extractSkills(parsed.installedSkills);
+  if (Array.isArray(document?.installedSkills)) {
+    return extractEntries(document.installedSkills);
   }
 
-  return [];
+  return null;
 }
 
-function parseSkillsListOutput(output: string): SkillInfo[] {
+// Entries without a source say nothing about where a skill came from, so they are dropped.
+function parseSkillsLock(raw: string): SkillInfo[] {
+  const entries = parseInventoryDocument(JSON.parse(raw)) ?? [];
+  return entries.flatMap((entry) =>
+    entry.source ? [{ name: entry.name, source: entry.source }] : []
+  );
+}
+
+function parseSkillsListOutput(output: string): InventoryEntry[] {
   const cleaned = output.replace(/\x1b\[[0-9;]*m/g, "");
   const lines = cleaned.split(/\r?\n/).map((line) => line.trim());
 
-  const skills: SkillInfo[] = [];
+  const entries: InventoryEntry[] = [];
   for (const line of lines) {
     if (!line) continue;
     if (line === "Global Skills") continue;
@@ -159,10 +253,10 @@ function parseSkillsListOutput(output: string): SkillInfo[] {
     const [name] = line.split(/\s+/);
     if (!name) continue;
     if (name.includes("\\") || name.includes("/") || name.includes("~")) continue;
-    skills.push({ name, source: DEFAULT_SKILL_SOURCE_REPO });
+    entries.push({ name });
   }
 
-  return normalizeSkills(skills);
+  return entries;
 }
 
 async function tryReadSkillsLock(lockPath: string) {
@@ -174,13 +268,13 @@ async function tryReadSkillsLock(lockPath: string) {
   }
 }
 
-async function readFirstAvailableSkillsLock() {
-  const candidatePaths = getAllCandidateSkillsLockPaths();
+async function readFirstAvailableSkillsLock(candidatePaths: string[]) {
   for (const lockPath of candidatePaths) {
     const parsed = await tryReadSkillsLock(lockPath);
     if (parsed && parsed.length > 0) {
       return {
         skills: normalizeSkills(parsed),
+        lockPath: lockPath as string | null,
         candidatePaths,
       };
     }
@@ -188,11 +282,26 @@ async function readFirstAvailableSkillsLock() {
 
   return {
     skills: [] as SkillInfo[],
+    lockPath: null,
     candidatePaths,
   };
 }
 
-function hydrateSourcesFromLock(listSkills: SkillInfo[], lockSkills: SkillInfo[]) {
+// The global lock is authoritative. A lock file in the working directory belongs to that
+// project: it only adds sources for names the global lock does not know.
+async function readSkillsLocks() {
+  const global = await readFirstAvailableSkillsLock(getAllCandidateSkillsLockPaths());
+  const project = await readFirstAvailableSkillsLock(getProjectSkillsLockPaths());
+  const globalNames = new Set(global.skills.map((skill) => skill.name));
+  return normalizeSkills([
+    ...global.skills,
+    ...project.skills.filter((skill) => !globalNames.has(skill.name)),
+  ]);
+}
+
+// Fills in missing sources from the lock files. Names no lock file attributes are left out
+// and reported as unknown rather than guessed.
+function hydrateSourcesFromLock(entries: InventoryEntry[], lockSkills: SkillInfo[]) {
   const lockByName = new Map<string, SkillInfo[]>();
   for (const skill of lockSkills) {
     const existing = lockByName.get(skill.name);
@@ -203,58 +312,248 @@ function hydrateSourcesFromLock(listSkills: SkillInfo[], lockSkills: SkillInfo[]
     lockByName.set(skill.name, [skill]);
   }
 
-  const hydrated = listSkills.map((skill) => {
-    const matches = lockByName.get(skill.name);
-    if (!matches || matches.length === 0) {
-      return skill;
+  // Every lock entry keeps its own source; same-named entries surface as collisions
+  // instead of one being picked arbitrarily.
+  const unknownSources: string[] = [];
+  const hydrated = entries.flatMap((entry): SkillInfo[] => {
+    if (entry.source) {
+      return [{ name: entry.name, source: entry.source }];
     }
-    const preferred = matches.find((item) => isValidSource(item.source)) ?? matches[0]!;
-    return {
-      name: skill.name,
-      source: preferred.source,
-    };
+    const matches = (lockByName.get(entry.name) ?? []).filter((item) =>
+      isValidSource(item.source)
+    );
+    if (matches.length === 0) {
+      unknownSources.push(entry.name);
+      return [];
+    }
+    return matches.map((item) => ({ name: entry.name, source: item.source }));
   });
 
-  return normalizeSkills(hydrated);
+  return { skills: normalizeSkills(hydrated), unknownSources: [...new Set(unknownSources)] };
 }
 
-export async function getLocalSkills(): Promise<SkillInfo[]> {
-  const listResult = await runSkillsCommand(["list", "-g"], "skills list -g");
-  const listOutput = stringifyCommandResult(listResult);
-
-  if (
-    listOutput.includes("No global skills found") ||
-    listOutput.includes("Try listing project skills without -g")
-  ) {
-    return [];
+// `unknownSources` names skills the strategy lists but cannot attribute to a repository.
+type ProviderResult = {
+  skills: SkillInfo[] | null;
+  detail: string;
+  unknownSources?: string[];
+};
+
+type InventoryProvider = {
+  source: InventorySource;
+  // `skills: null` means the strategy cannot produce a list here; `detail` says why.
+  read: () => Promise<ProviderResult>;
+};
+
+function describeError(error: unknown) {
+  return error instanceof Error ? error.message.split("\n")[0]! : String(error);
+}
+
+const jsonInventoryProvider: InventoryProvider = {
+  source: "json",
+  async read() {
+    const result = await runSkillsCommand(
+      ["list", "-g", "--json"],
+      "skills list -g --json"
+    );
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(result.stdout ?? "");
+    } catch {
+      return { skills: null, detail: "skills CLI does not support `list --json`" };
+    }
+
+    const entries = parseInventoryDocument(parsed);
+    if (!entries) {
+      return { skills: null, detail: "unrecognized `skills list --json` output" };
+    }
+    const hydrated = hydrateSourcesFromLock(entries, await readSkillsLocks());
+    return { ...hydrated, detail: "skills list -g --json" };
+  },
+};
+
+const lockInventoryProvider: InventoryProvider = {
+  source: "lock",
+  async read() {
+    const fromLock = await readFirstAvailableSkillsLock(getAllCandidateSkillsLockPaths());
+    if (!fromLock.lockPath) {
+      return {
+        skills: null,
+        detail: `no lock file with skills in ${fromLock.candidatePaths.length} searched paths`,
+      };
+    }
+    return { skills: fromLock.skills, detail: fromLock.lockPath };
+  },
+};
+
+export async function scanLocalSkills(): Promise<LocalSkillScan> {
+  const { roots } = await getSkillRoots();
+  const scan = await scanSkillRoots(roots);
+  const lockSkills = await readSkillsLocks();
+
+  const skills: SkillInfo[] = [];
+  const unsourced: ScannedSkill[] = [];
+  for (const scanned of scan.skills) {
+    const sources = lockSkills.filter(
+      (item) => item.name === scanned.name && isValidSource(item.source)
+    );
+    if (sources.length === 0) {
+      unsourced.push(scanned);
+      continue;
+    }
+    skills.push(...sources.map((item) => ({ name: scanned.name, source: item.source })));
   }
 
-  const fromList = parseSkillsListOutput(listOutput);
-  const fromLock = await readFirstAvailableSkillsLock();
+  return { roots: scan.roots, skills, unsourced };
+}
+
+// Reads SKILL.md folders directly, without running the skills CLI.
+const scanInventoryProvider: InventoryProvider = {
+  source: "scan",
+  async read() {
+    const scan = await scanLocalSkills();
+    if (scan.roots.length === 0) {
+      const { roots } = await getSkillRoots();
+      return {
+        skills: null,
+        detail: `none of the skill roots exist: ${roots.join(", ")}`,
+      };
+    }
+    return {
+      skills: scan.skills,
+      detail: `${scan.roots.join(", ")} (${scan.unsourced.length} without a recorded source)`,
+    };
+  },
+};
+
+// Last resort: scrapes the human-readable `skills list -g` output.
+const textInventoryProvider: InventoryProvider = {
+  source: "text",
+  async read() {
+    const listResult = await runSkillsCommand(["list", "-g"], "skills list -g");
+    const listOutput = stringifyCommandResult(listResult);
+
+    if (
+      listOutput.includes("No global skills found") ||
+      listOutput.includes("Try listing project skills without -g")
+    ) {
+      return { skills: [], detail: "skills list -g (no global skills)" };
+    }
 
-  if (fromList.length > 0) {
-    if (fromLock.skills.length > 0) {
-      return hydrateSourcesFromLock(fromList, fromLock.skills);
+    const entries = parseSkillsListOutput(listOutput);
+    if (entries.length === 0) {
+      return {
+        skills: null,
+        detail: `no skills recognized in \`skills list -g\` output: ${listOutput.slice(0, 200)}`,
+      };
     }
-    return fromList;
+    const hydrated = hydrateSourcesFromLock(entries, await readSkillsLocks());
+    return { ...hydrated, detail: "skills list -g" };
+  },
+};
+
+const INVENTORY_PROVIDERS: InventoryProvider[] = [
+  jsonInventoryProvider,
+  lockInventoryProvider,
+  scanInventoryProvider,
+  textInventoryProvider,
+];
+
+// Also drops the embedded skills read so far, which depend on the strategy in use.
+export function setInventorySourceOverride(value: string | undefined) {
+  inventorySourceOverride = value === undefined ? undefined : parseInventorySource(value);
+  localEmbeddedSkills = undefined;
+}
+
+export function parseInventorySource(value: string): InventorySource | undefined {
+  if (value === "auto") {
+    return undefined;
+  }
+  if (!(INVENTORY_SOURCES as readonly string[]).includes(value)) {
+    throw new Error(
+      `Invalid inventory source "${value}". Use one of: auto, ${INVENTORY_SOURCES.join(", ")}.`
+    );
   }
+  return value as InventorySource;
+}
 
-  if (fromLock.skills.length > 0) {
-    return fromLock.skills;
+// `--inventory-source` wins over `SKILLHUB_INVENTORY_SOURCE`; otherwise each strategy is tried in turn.
+function resolveInventorySources() {
+  const envValue = process.env[INVENTORY_SOURCE_ENV_VAR];
+  const forced =
+    inventorySourceOverride ?? (envValue ? parseInventorySource(envValue) : undefined);
+  return forced ? [forced] : [...INVENTORY_SOURCES];
+}
+
+// Installed skills with the strategy that produced them and why earlier ones were skipped.
+export async function getLocalInventory(): Promise<LocalInventory> {
+  const attempts: InventoryAttempt[] = [];
+  const sources = resolveInventorySources();
+
+  for (const source of sources) {
+    const provider = INVENTORY_PROVIDERS.find((candidate) => candidate.source === source)!;
+    let result: ProviderResult;
+    try {
+      result = await provider.read();
+    } catch (error) {
+      result = { skills: null, detail: describeError(error) };
+    }
+
+    if (result.skills) {
+      attempts.push({ source, status: "used", detail: result.detail });
+      const installed = await attachInstalledRefs(normalizeSkills(result.skills));
+      const embedded = sources.some(embedsLocalSkills)
+        ? await readLocalEmbeddedSkills(installed)
+        : [];
+      const embeddedNames = new Set(embedded.map((skill) => skill.name));
+      return {
+        source,
+        skills: normalizeSkills([...installed, ...embedded]),
+        attempts,
+        unknownSources: (result.unknownSources ?? []).filter(
+          (name) => !embeddedNames.has(name)
+        ),
+      };
+    }
+    attempts.push({ source, status: "unavailable", detail: result.detail });
   }
 
-  throw new Error(
+  throw new CliError(
+    "INVENTORY_UNAVAILABLE",
     [
       "Unable to construct local skills list.",
-      "- skills list -g output:",
-      listOutput,
-      "",
-      "- Searched lock paths:",
-      ...fromLock.candidatePaths.map((p) => `  - ${p}`),
+      ...attempts.map((attempt) => `- ${attempt.source}: ${attempt.detail}`),
     ].join("\n")
   );
 }
 
+// Skill folders without a recorded source are locally authored; they sync with their files.
+// Locally authored skills come from the skill-root scan, so a forced `json` or `text`
+// strategy leaves them out.
+function embedsLocalSkills(source: InventorySource) {
+  return source === "lock" || source === "scan";
+}
+
+async function readLocalEmbeddedSkills(installed: SkillInfo[]) {
+  const installedNames = new Set(installed.map((skill) => skill.name));
+  const installedKey = [...installedNames].sort().join("\n");
+  if (localEmbeddedSkills?.installedKey !== installedKey) {
+    const { unsourced } = await scanLocalSkills();
+    localEmbeddedSkills = {
+      installedKey,
+      skills: await readEmbeddedSkills(
+        unsourced.filter((skill) => !installedNames.has(skill.name))
+      ),
+    };
+  }
+  return localEmbeddedSkills.skills;
+}
+
+// Installed skills, with the ref each one was installed at when known.
+export async function getLocalSkills(): Promise<SkillInfo[]> {
+  return (await getLocalInventory()).skills;
+}
+
 export async function installSkills(
   skills: SkillInfo[],
   options: { verbose?: boolean } = {}
@@ -263,6 +562,25 @@ export async function installSkills(
   const failed: InstallFailure[] = [];
 
   for (const skill of skills) {
+    if (skill.embedded) {
+      try {
+        const { roots } = await getSkillRoots();
+        const target = await writeEmbeddedSkill(roots[0]!, skill);
+        if (options.verbose) {
+          console.log(`Wrote ${skill.name} to ${target}`);
+        }
+        succeeded.push(skill);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        failed.push({ skill, reason });
+        if (options.verbose) {
+          console.warn(`Skill install failed: ${skill.name} (embedded)`);
+          console.warn(`  - ${reason}`);
+        }
+      }
+      continue;
+    }
+
     if (!isValidSource(skill.source)) {
       const reason = `Invalid source "${skill.source}". Expected owner/repo format.`;
       failed.push({ skill, reason });
@@ -274,9 +592,10 @@ export async function installSkills(
     }
 
     try {
+      const installSource = getInstallSource(skill);
       const result = await runSkillsCommand(
-        ["add", skill.source, "--skill", skill.name, "--global", "--yes"],
-        `skills add ${skill.source} --skill ${skill.name}`
+        ["add", installSource, "--skill", skill.name, "--global", "--yes"],
+        `skills add ${installSource} --skill ${skill.name}`
       );
       const output = stringifyCommandResult(result);
       if (options.verbose && output) {
@@ -293,9 +612,39 @@ export async function installSkills(
     }
   }
 
+  await recordInstalledHashes(succeeded);
+  localEmbeddedSkills = undefined;
+  const installedFromRepos = succeeded.filter((skill) => !skill.embedded);
+  await recordInstalledRefs(installedFromRepos);
+  // Only a SHA ref tells which commit was installed; otherwise the previous record is stale.
+  await recordInstalledCommits(
+    installedFromRepos.map((skill) => ({
+      skill,
+      commit: skill.ref && isCommitSha(skill.ref) ? skill.ref : null,
+    }))
+  );
   return { succeeded, failed };
 }
 
+// Sources the lock file records for an installed skill name; empty when unknown.
+async function getLockedSources(name: string) {
+  const skills = await readSkillsLocks();
+  return skills.filter((skill) => skill.name === name).map((skill) => skill.source);
+}
+
+// Deletes a locally authored skill folder; folders the lock file ties to a repo are never touched.
+async function removeEmbeddedSkill(skill: SkillInfo, options: { verbose?: boolean }) {
+  const { unsourced } = await scanLocalSkills();
+  const folder = unsourced.find((item) => item.name === skill.name);
+  if (!folder) {
+    return;
+  }
+  await fs.rm(folder.path, { recursive: true, force: true });
+  if (options.verbose) {
+    console.log(`Removed ${folder.path}`);
+  }
+}
+
 export async function removeSkills(
   skills: SkillInfo[],
   options: { verbose?: boolean } = {}
@@ -311,6 +660,34 @@ export async function removeSkills(
     }
     seen.add(key);
 
+    if (skill.embedded) {
+      try {
+        await removeEmbeddedSkill(skill, options);
+        succeeded.push(skill);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        failed.push({ skill, reason });
+        if (options.verbose) {
+          console.warn(`Skill remove failed: ${skill.name} (embedded)`);
+          console.warn(`  - ${reason}`);
+        }
+      }
+      continue;
+    }
+
+    // `skills remove` only takes a name, so make sure the installed copy is this source's.
+    const lockedSources = await getLockedSources(skill.name);
+    // Reported as a failure so sync does not record the removal as done.
+    if (lockedSources.length > 0 && !lockedSources.includes(skill.source)) {
+      const reason = `Not removed: the installed ${skill.name} comes from ${lockedSources.join(", ")}, not ${skill.source}.`;
+      failed.push({ skill, reason });
+      if (options.verbose) {
+        console.warn(`Skill remove failed: ${skill.name} (from ${skill.source})`);
+        console.warn(`  - ${reason}`);
+      }
+      continue;
+    }
+
     try {
       const result = await runSkillsCommand(
         ["remove", "--skill", skill.name, "--global", "--yes"],
@@ -331,5 +708,10 @@ export async function removeSkills(
     }
   }
 
+  await forgetInstalledHashes(succeeded);
+  localEmbeddedSkills = undefined;
+  const removedFromRepos = succeeded.filter((skill) => !skill.embedded);
+  await recordInstalledRefs(removedFromRepos.map(({ name, source }) => ({ name, source })));
+  await recordInstalledCommits(removedFromRepos.map((skill) => ({ skill, commit: null })));
   return { succeeded, failed };
 }
@@ -0,0 +1,92 @@
+import { configStore } from "@/service/config";
+import { decryptWithPassphrase, encryptWithPassphrase } from "@/utils/crypto";
+import { readPassphrase } from "@/utils/passphrase";
+
+export const TOKEN_ENV_VAR = "SKILLHUB_TOKEN";
+export const TOKEN_PASSPHRASE_ENV_VAR = "SKILLHUB_TOKEN_PASSPHRASE";
+
+export type TokenSource = "env" | "config";
+
+export type ResolvedToken = {
+  token: string | null;
+  source: TokenSource | null;
+};
+
+// Unlocked once per process so several API calls share a single passphrase prompt.
+let unlockedToken: string | undefined;
+
+async function unlockStoredToken() {
+  if (unlockedToken !== undefined) {
+    return unlockedToken;
+  }
+
+  const envelope = await configStore.getEncryptedToken();
+  if (!envelope) {
+    return undefined;
+  }
+
+  const passphrase = await readPassphrase({
+    envVar: TOKEN_PASSPHRASE_ENV_VAR,
+    message: "Passphrase to unlock the stored GitHub token:",
+  });
+  unlockedToken = decryptWithPassphrase(envelope, passphrase);
+  return unlockedToken;
+}
+
+// `SKILLHUB_TOKEN` takes precedence over the token stored for the active profile.
+export async function resolveToken(): Promise<ResolvedToken> {
+  const fromEnv = process.env[TOKEN_ENV_VAR]?.trim();
+  if (fromEnv) {
+    return { token: fromEnv, source: "env" };
+  }
+
+  const stored = (await configStore.getToken()) ?? (await unlockStoredToken());
+  if (stored) {
+    return { token: stored, source: "config" };
+  }
+  return { token: null, source: null };
+}
+
+export async function isStoredTokenEncrypted() {
+  return Boolean(await configStore.getEncryptedToken());
+}
+
+async function encryptAndStore(token: string) {
+  const passphrase = await readPassphrase({
+    envVar: TOKEN_PASSPHRASE_ENV_VAR,
+    message: "Passphrase to encrypt the GitHub token:",
+    confirm: true,
+  });
+  await configStore.setEncryptedToken(encryptWithPassphrase(token, passphrase));
+  await configStore.clearToken();
+  unlockedToken = token;
+}
+
+// Keeps the profile's storage mode: once encryption is enabled, new tokens are encrypted too.
+export async function storeToken(token: string) {
+  if (await isStoredTokenEncrypted()) {
+    await encryptAndStore(token);
+    return;
+  }
+  await configStore.setToken(token);
+}
+
+export async function encryptStoredToken() {
+  if (await isStoredTokenEncrypted()) {
+    throw new Error("The stored token is already encrypted.");
+  }
+  const token = await configStore.getToken();
+  if (!token) {
+    throw new Error("No stored token to encrypt. Run `skillhub auth login` first.");
+  }
+  await encryptAndStore(token);
+}
+
+export async function decryptStoredToken() {
+  if (!(await isStoredTokenEncrypted())) {
+    throw new Error("The stored token is not encrypted.");
+  }
+  const token = await unlockStoredToken();
+  await configStore.setToken(token!);
+  await configStore.clearEncryptedToken();
+}
@@ -0,0 +1,208 @@
+import { createOctokit } from "@/service/gistService";
+import { getGitHubWebUrl } from "@/service/githubHost";
+import { isTransientError, retryAsync } from "@/utils/retry";
+
+const EXPIRY_WARNING_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TokenType = "classic" | "fine-grained" | "oauth" | "unknown";
+
+export type RateLimitInfo = {
+  limit: number | null;
+  remaining: number;
+  resetAt: string | null;
+};
+
+export type TokenDiagnostics = {
+  type: TokenType;
+  login: string | null;
+  // Null when GitHub does not report scopes (fine-grained tokens).
+  scopes: string[] | null;
+  expiresAt: string | null;
+  rateLimit: RateLimitInfo | null;
+  gistAccess: boolean;
+  hints: string[];
+};
+
+type Headers = Record<string, string | number | undefined>;
+
+type RequestFailure = {
+  status?: number;
+  message?: string;
+  response?: { headers?: Headers };
+};
+
+export function detectTokenType(token: string): TokenType {
+  if (token.startsWith("github_pat_")) {
+    return "fine-grained";
+  }
+  if (token.startsWith("ghp_")) {
+    return "classic";
+  }
+  if (token.startsWith("gho_") || token.startsWith("ghu_")) {
+    return "oauth";
+  }
+  // Pre-2021 classic tokens are 40 hex characters without a prefix.
+  if (/^[0-9a-f]{40}$/i.test(token)) {
+    return "classic";
+  }
+  return "unknown";
+}
+
+function readHeader(headers: Headers | undefined, name: string) {
+  const value = headers?.[name];
+  return value === undefined ? undefined : String(value);
+}
+
+function parseScopes(headers: Headers | undefined) {
+  const raw = readHeader(headers, "x-oauth-scopes");
+  if (raw === undefined) {
+    return null;
+  }
+  return raw
+    .split(",")
+    .map((scope) => scope.trim())
+    .filter((scope) => scope.length > 0);
+}
+
+// GitHub sends e.g. `2026-11-01 10:00:00 UTC` (or with a numeric offset).
+function parseExpiry(headers: Headers | undefined) {
+  const raw = readHeader(headers, "github-authentication-token-expiration");
+  if (!raw) {
+    return null;
+  }
+  const parsed = Date.parse(raw.replace(" UTC", "Z").replace(" ", "T").replace(" ", ""));
+  return Number.isNaN(parsed) ? null : new Date(parsed).toISOString();
+}
+
+function parseRateLimit(headers: Headers | undefined): RateLimitInfo | null {
+  const remaining = readHeader(headers, "x-ratelimit-remaining");
+  if (remaining === undefined) {
+    return null;
+  }
+  const limit = readHeader(headers, "x-ratelimit-limit");
+  const reset = readHeader(headers, "x-ratelimit-reset");
+  return {
+    limit: limit === undefined ? null : Number(limit),
+    remaining: Number(remaining),
+    resetAt: reset === undefined ? null : new Date(Number(reset) * 1000).toISOString(),
+  };
+}
+
+// retryAsync wraps the final error, so look through `cause` for the HTTP status.
+function getRequestFailure(error: unknown): RequestFailure {
+  const candidate = error as RequestFailure & { cause?: unknown };
+  if (candidate?.status === undefined && candidate?.cause) {
+    return candidate.cause as RequestFailure;
+  }
+  return candidate;
+}
+
+function withRetry<T>(label: string, fn: () => Promise<T>) {
+  return retryAsync(fn, { label, shouldRetry: isTransientError });
+}
+
+export function buildTokenHints(
+  diagnostics: Omit<TokenDiagnostics, "hints">,
+  context: { webUrl: string; authStatus?: number; now?: number }
+) {
+  const hints: string[] = [];
+  const now = context.now ?? Date.now();
+  const classicSettingsUrl = `${context.webUrl}/settings/tokens`;
+  const fineGrainedSettingsUrl = `${context.webUrl}/settings/personal-access-tokens`;
+
+  if (context.authStatus === 401) {
+    hints.push(
+      "The token is invalid, expired or revoked. Run `skillhub auth login` with a new token."
+    );
+    return hints;
+  }
+
+  if (diagnostics.scopes !== null && !diagnostics.scopes.includes("gist")) {
+    hints.push(
+      `The token is missing the \`gist\` scope. Add it at ${classicSettingsUrl} or run \`skillhub auth login --web\`.`
+    );
+  }
+
+  if (diagnostics.type === "fine-grained" && !diagnostics.gistAccess) {
+    hints.push(
+      `The fine-grained token has no "Gists" account permission. Grant "Gists: Read and write" at ${fineGrainedSettingsUrl}.`
+    );
+  } else if (!diagnostics.gistAccess && diagnostics.scopes?.includes("gist")) {
+    hints.push("The Gist API refused the request; check organization SSO or IP allow-list policies.");
+  }
+
+  if (diagnostics.expiresAt) {
+    const remainingMs = Date.parse(diagnostics.expiresAt) - now;
+    if (remainingMs <= 0) {
+      hints.push(`The token expired at ${diagnostics.expiresAt}. Create a new one and log in again.`);
+    } else if (remainingMs < EXPIRY_WARNING_DAYS * DAY_MS) {
+      hints.push(
+        `The token expires at ${diagnostics.expiresAt}. Regenerate it before then to avoid sync failures.`
+      );
+    }
+  }
+
+  if (diagnostics.rateLimit && diagnostics.rateLimit.remaining === 0) {
+    hints.push(
+      `The API rate limit is exhausted; it resets at ${diagnostics.rateLimit.resetAt ?? "an unknown time"}.`
+    );
+  }
+
+  return hints;
+}
+
+export async function diagnoseToken(token: string, baseUrl: string): Promise<TokenDiagnostics> {
+  const octokit = createOctokit(token, baseUrl);
+  let headers: Headers | undefined;
+  let login: string | null = null;
+  let authStatus: number | undefined;
+
+  try {
+    const response = await withRetry("users.getAuthenticated", () =>
+      octokit.users.getAuthenticated()
+    );
+    headers = response.headers as Headers;
+    login = response.data.login;
+  } catch (error) {
+    const failure = getRequestFailure(error);
+    authStatus = failure.status;
+    headers = failure.response?.headers;
+    if (failure.status === undefined) {
+      throw error;
+    }
+  }
+
+  let gistAccess = false;
+  if (authStatus === undefined) {
+    try {
+      const response = await withRetry("gists.list", () =>
+        octokit.rest.gists.list({ per_page: 1 })
+      );
+      headers = { ...headers, ...(response.headers as Headers) };
+      gistAccess = true;
+    } catch (error) {
+      const failure = getRequestFailure(error);
+      if (failure.status === undefined) {
+        throw error;
+      }
+    }
+  }
+
+  const diagnostics = {
+    type: detectTokenType(token),
+    login,
+    scopes: parseScopes(headers),
+    expiresAt: parseExpiry(headers),
+    rateLimit: parseRateLimit(headers),
+    gistAccess,
+  };
+
+  return {
+    ...diagnostics,
+    hints: buildTokenHints(diagnostics, {
+      webUrl: getGitHubWebUrl(baseUrl),
+      authStatus,
+    }),
+  };
+}
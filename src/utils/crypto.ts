@@ -0,0 +1,111 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  randomBytes,
+  scryptSync,
+  timingSafeEqual,
+} from "node:crypto";
+import { CliError } from "@/utils/errors";
+
+const ENVELOPE_VERSION = 1;
+const CIPHER = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const KEY_CHECK_LABEL = "skillhub-key-check";
+const DEFAULT_SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+
+// Versioned, self-describing ciphertext; binary fields are base64.
+export type EncryptedEnvelope = {
+  version: number;
+  cipher: typeof CIPHER;
+  kdf: "scrypt";
+  kdfParams: { N: number; r: number; p: number };
+  salt: string;
+  iv: string;
+  // Derived from the key alone, so a wrong passphrase is told apart from corrupt data.
+  keyCheck: string;
+  tag: string;
+  ciphertext: string;
+};
+
+function deriveKey(passphrase: string, salt: Buffer, params: EncryptedEnvelope["kdfParams"]) {
+  return scryptSync(passphrase, salt, KEY_LENGTH, {
+    ...params,
+    maxmem: 128 * params.N * params.r * 2,
+  });
+}
+
+function computeKeyCheck(key: Buffer) {
+  return createHmac("sha256", key).update(KEY_CHECK_LABEL).digest().subarray(0, 16);
+}
+
+export function encryptWithPassphrase(plaintext: string, passphrase: string): EncryptedEnvelope {
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const key = deriveKey(passphrase, salt, DEFAULT_SCRYPT_PARAMS);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+
+  return {
+    version: ENVELOPE_VERSION,
+    cipher: CIPHER,
+    kdf: "scrypt",
+    kdfParams: { ...DEFAULT_SCRYPT_PARAMS },
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    keyCheck: computeKeyCheck(key).toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    ciphertext: ciphertext.toString("base64"),
+  };
+}
+
+export function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  const candidate = value as Partial<EncryptedEnvelope> | null;
+  return (
+    typeof candidate === "object" &&
+    candidate !== null &&
+    typeof candidate.version === "number" &&
+    candidate.kdf === "scrypt" &&
+    typeof candidate.ciphertext === "string"
+  );
+}
+
+export function decryptWithPassphrase(envelope: EncryptedEnvelope, passphrase: string) {
+  if (envelope.version !== ENVELOPE_VERSION || envelope.cipher !== CIPHER) {
+    throw new CliError(
+      "UNSUPPORTED_ENCRYPTION",
+      `Unsupported encryption format (version ${envelope.version}, cipher ${envelope.cipher}).`
+    );
+  }
+
+  let key: Buffer;
+  let keyCheck: Buffer;
+  try {
+    key = deriveKey(passphrase, Buffer.from(envelope.salt, "base64"), envelope.kdfParams);
+    keyCheck = Buffer.from(envelope.keyCheck, "base64");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new CliError("CORRUPT_CIPHERTEXT", `Encrypted data is corrupt: ${message}`);
+  }
+
+  const expectedCheck = computeKeyCheck(key);
+  if (keyCheck.length !== expectedCheck.length || !timingSafeEqual(keyCheck, expectedCheck)) {
+    throw new CliError("WRONG_PASSPHRASE", "Wrong passphrase: unable to decrypt.");
+  }
+
+  try {
+    const decipher = createDecipheriv(CIPHER, key, Buffer.from(envelope.iv, "base64"));
+    decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(envelope.ciphertext, "base64")),
+      decipher.final(),
+    ]).toString("utf-8");
+  } catch {
+    throw new CliError(
+      "CORRUPT_CIPHERTEXT",
+      "Encrypted data is corrupt or was tampered with (authentication failed)."
+    );
+  }
+}
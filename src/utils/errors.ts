@@ -0,0 +1,42 @@
+export class CliError extends Error {
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = "CliError";
+    this.code = code;
+  }
+}
+
+export class RemoteConflictError extends CliError {
+  constructor(message: string) {
+    super("REMOTE_CONFLICT", message);
+    this.name = "RemoteConflictError";
+  }
+}
+
+export class PayloadValidationError extends CliError {
+  readonly issues: { path: string; message: string }[];
+
+  constructor(issues: { path: string; message: string }[]) {
+    super(
+      "INVALID_PAYLOAD",
+      [
+        "skillhub.json is not a valid payload:",
+        ...issues.map((issue) => `- ${issue.path}: ${issue.message}`),
+      ].join("\n")
+    );
+    this.name = "PayloadValidationError";
+    this.issues = issues;
+  }
+}
+
+export function getErrorCode(error: unknown) {
+  return error instanceof CliError ? error.code : undefined;
+}
+
+// Readable-but-unusable payloads; other coded errors (e.g. a wrong passphrase) are not included.
+export function isInvalidPayloadError(error: unknown) {
+  const code = getErrorCode(error);
+  return code === "INVALID_PAYLOAD" || code === "CORRUPT_PAYLOAD";
+}
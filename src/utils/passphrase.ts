@@ -0,0 +1,48 @@
+export type ReadPassphraseOptions = {
+  // Environment variable checked before prompting (for CI and scripts).
+  envVar: string;
+  message: string;
+  // Ask twice and require both answers to match (when setting a new passphrase).
+  confirm?: boolean;
+};
+
+export async function readPassphrase(options: ReadPassphraseOptions) {
+  const fromEnv = process.env[options.envVar];
+  if (fromEnv) {
+    return fromEnv;
+  }
+
+  if (!process.stdin.isTTY) {
+    throw new Error(
+      `A passphrase is required. Set ${options.envVar} when running non-interactively.`
+    );
+  }
+
+  const { default: inquirer } = await import("inquirer");
+  const { passphrase } = await inquirer.prompt<{ passphrase: string }>([
+    {
+      type: "password",
+      name: "passphrase",
+      message: options.message,
+      mask: "*",
+      validate: (value: string) =>
+        value.length > 0 ? true : "Please enter a passphrase.",
+    },
+  ]);
+
+  if (options.confirm) {
+    const { repeated } = await inquirer.prompt<{ repeated: string }>([
+      {
+        type: "password",
+        name: "repeated",
+        message: "Repeat the passphrase:",
+        mask: "*",
+      },
+    ]);
+    if (repeated !== passphrase) {
+      throw new Error("Passphrases do not match.");
+    }
+  }
+
+  return passphrase;
+}
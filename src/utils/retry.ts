@@ -81,8 +81,10 @@ export async function retryAsync<T>(
       const canRetry = attempt < maxAttempts && shouldRetry(error);
       if (!canRetry) {
         const labelPrefix = options.label ? `${options.label} failed` : "Operation failed";
-        throw new Error(
-          `${labelPrefix} after ${attempt} attempt(s): ${getErrorMessage(error)}`
+        // Keep the original error reachable for callers that inspect HTTP status codes.
+        throw Object.assign(
+          new Error(`${labelPrefix} after ${attempt} attempt(s): ${getErrorMessage(error)}`),
+          { cause: error }
         );
       }
 
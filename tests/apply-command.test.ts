@@ -0,0 +1,193 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { resolve } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  mockConfigStore,
+  mockCreateOctokit,
+  mockCreateSkillhubGist,
+  mockListSkillhubGists,
+  mockGetSkillhubSnapshot,
+  mockUpdateSkillhubGist,
+  mockGetLocalSkills,
+  mockInstallSkills,
+  mockRemoveSkills,
+  mockIsValidSource,
+  mockEmitOutput,
+  mockHoldBackModifiedSkills,
+} = vi.hoisted(() => ({
+  mockConfigStore: {
+    getToken: vi.fn(),
+    getRemote: vi.fn(),
+    getGitHubBaseUrl: vi.fn(),
+    getGistId: vi.fn(),
+    setGistId: vi.fn(),
+    setLastSyncAt: vi.fn(),
+    setBaseSkills: vi.fn(),
+  },
+  mockCreateOctokit: vi.fn(),
+  mockCreateSkillhubGist: vi.fn(),
+  mockListSkillhubGists: vi.fn(),
+  mockGetSkillhubSnapshot: vi.fn(),
+  mockUpdateSkillhubGist: vi.fn(),
+  mockGetLocalSkills: vi.fn(),
+  mockInstallSkills: vi.fn(),
+  mockRemoveSkills: vi.fn(),
+  mockIsValidSource: vi.fn(),
+  mockEmitOutput: vi.fn(),
+  mockHoldBackModifiedSkills: vi.fn(),
+}));
+
+vi.mock("@/service/config", () => ({
+  configStore: mockConfigStore,
+}));
+
+vi.mock("@/service/gistService", () => ({
+  createOctokit: mockCreateOctokit,
+  createSkillhubGist: mockCreateSkillhubGist,
+  listSkillhubGists: mockListSkillhubGists,
+  getSkillhubSnapshot: mockGetSkillhubSnapshot,
+  updateSkillhubGist: mockUpdateSkillhubGist,
+}));
+
+vi.mock("@/service/skillsService", () => ({
+  getLocalSkills: mockGetLocalSkills,
+  installSkills: mockInstallSkills,
+  removeSkills: mockRemoveSkills,
+  isValidSource: mockIsValidSource,
+}));
+
+vi.mock("@/service/skillChecksums", () => ({
+  holdBackModifiedSkills: mockHoldBackModifiedSkills,
+}));
+
+vi.mock("@/utils/output", () => ({
+  emitOutput: mockEmitOutput,
+}));
+
+import { runApply } from "@/commands/apply";
+
+describe("apply command", () => {
+  let sandboxDir = "";
+  let planPath = "";
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    sandboxDir = mkdtempSync(resolve(tmpdir(), "skillhub-apply-test-"));
+    planPath = resolve(sandboxDir, "plan.json");
+    writeFileSync(
+      planPath,
+      JSON.stringify({
+        version: 1,
+        mode: "merge",
+        createdAt: "2026-01-01T00:00:00.000Z",
+        remote: "gist",
+        remoteId: "gist-id",
+        remoteRevision: "rev-1",
+        localSkills: [{ name: "alpha", source: "org/repo" }],
+        remoteSkills: [{ name: "beta", source: "org/repo" }],
+        installCandidates: [{ name: "beta", source: "org/repo" }],
+        removeCandidates: [],
+        uploadPayload: {
+          skills: [
+            { name: "alpha", source: "org/repo" },
+            { name: "beta", source: "org/repo" },
+          ],
+          updatedAt: "2026-01-01T00:00:00.000Z",
+        },
+      })
+    );
+
+    mockCreateOctokit.mockReturnValue({});
+    mockConfigStore.getToken.mockResolvedValue("token");
+    mockConfigStore.getGistId.mockResolvedValue("gist-id");
+    mockGetSkillhubSnapshot.mockResolvedValue({
+      payload: {
+        skills: [{ name: "beta", source: "org/repo" }],
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      },
+      revision: "rev-1",
+    });
+    mockGetLocalSkills.mockResolvedValue([{ name: "alpha", source: "org/repo" }]);
+    mockInstallSkills.mockResolvedValue({
+      succeeded: [{ name: "beta", source: "org/repo" }],
+      failed: [],
+    });
+    mockRemoveSkills.mockResolvedValue({ succeeded: [], failed: [] });
+    mockIsValidSource.mockReturnValue(true);
+    mockHoldBackModifiedSkills.mockImplementation(async (candidates: unknown[]) => ({
+      heldBack: [],
+      allowed: candidates,
+    }));
+  });
+
+  afterEach(() => {
+    rmSync(sandboxDir, { recursive: true, force: true });
+  });
+
+  it("applies exactly the saved plan", async () => {
+    await runApply(planPath);
+
+    expect(mockUpdateSkillhubGist).toHaveBeenCalledWith(
+      {},
+      "gist-id",
+      expect.objectContaining({
+        skills: [
+          { name: "alpha", source: "org/repo" },
+          { name: "beta", source: "org/repo" },
+        ],
+      }),
+      { expectedRevision: "rev-1" }
+    );
+    expect(mockInstallSkills).toHaveBeenCalledWith(
+      [{ name: "beta", source: "org/repo" }],
+      { verbose: true }
+    );
+    expect(mockConfigStore.setLastSyncAt).toHaveBeenCalledTimes(1);
+  });
+
+  it("holds back locally modified skills unless forced", async () => {
+    mockHoldBackModifiedSkills.mockImplementation(async (candidates) => ({
+      heldBack: candidates.map((skill: object) => ({ skill, reason: "Locally modified" })),
+      allowed: [],
+    }));
+    mockInstallSkills.mockResolvedValue({ succeeded: [], failed: [] });
+
+    const summary = await runApply(planPath, { json: true });
+
+    expect(mockInstallSkills).toHaveBeenCalledWith([], { verbose: false });
+    expect(summary.failed).toEqual([
+      { skill: { name: "beta", source: "org/repo" }, reason: "Locally modified" },
+    ]);
+    expect(mockConfigStore.setLastSyncAt).not.toHaveBeenCalled();
+    process.exitCode = undefined;
+
+    mockHoldBackModifiedSkills.mockClear();
+    await runApply(planPath, { json: true, force: true });
+
+    expect(mockHoldBackModifiedSkills).not.toHaveBeenCalled();
+    expect(mockInstallSkills).toHaveBeenLastCalledWith(
+      [{ name: "beta", source: "org/repo" }],
+      { verbose: false }
+    );
+  });
+
+  it("refuses to apply when the remote gist has drifted", async () => {
+    mockGetSkillhubSnapshot.mockResolvedValue({
+      payload: { skills: [], updatedAt: "2026-01-02T00:00:00.000Z" },
+      revision: "rev-2",
+    });
+
+    await expect(runApply(planPath)).rejects.toMatchObject({ code: "PLAN_DRIFT" });
+    expect(mockUpdateSkillhubGist).not.toHaveBeenCalled();
+    expect(mockInstallSkills).not.toHaveBeenCalled();
+  });
+
+  it("refuses to apply when local skills have drifted", async () => {
+    mockGetLocalSkills.mockResolvedValue([]);
+
+    await expect(runApply(planPath)).rejects.toThrow("Local skills changed");
+    expect(mockUpdateSkillhubGist).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,5 @@
 import { existsSync } from "node:fs";
-import { mkdtempSync, rmSync } from "node:fs";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
 import { spawnSync } from "node:child_process";
 import { tmpdir } from "node:os";
 import { resolve } from "node:path";
@@ -7,10 +7,11 @@ import { afterAll, beforeAll, describe, expect, it } from "vitest";
 
 const CLI_ENTRY = resolve(process.cwd(), "dist", "index.js");
 
-function runCli(args: string[], env: NodeJS.ProcessEnv) {
+function runCli(args: string[], env: NodeJS.ProcessEnv, input?: string) {
   return spawnSync("node", [CLI_ENTRY, ...args], {
     encoding: "utf-8",
     env,
+    input,
   });
 }
 
@@ -62,6 +63,12 @@ describe.skipIf(!existsSync(CLI_ENTRY))("cli smoke", () => {
     expect(result.stderr).toContain("unknown command 'login'");
   });
 
+  it("rejects empty stdin for auth login --with-token", () => {
+    const result = runCli(["auth", "login", "--with-token"], sandboxEnv, "\n");
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain("No token was provided on stdin.");
+  });
+
   it("fails removed strategy option", () => {
     const result = runCli(["sync", "merge", "--strategy", "union"], sandboxEnv);
     expect(result.status).toBe(1);
@@ -73,13 +80,69 @@ describe.skipIf(!existsSync(CLI_ENTRY))("cli smoke", () => {
     expect(result.status).toBe(0);
     const parsed = JSON.parse(result.stdout);
     expect(parsed).toHaveProperty("loggedIn");
+    expect(parsed.host).toBe("github.com");
     expect(parsed).toHaveProperty("gistId");
     expect(parsed).toHaveProperty("lastSyncAt");
   });
 
+  it("validates a local payload file and exits non-zero on problems", () => {
+    const filePath = resolve(sandboxDir, "skillhub.json");
+    writeFileSync(filePath, JSON.stringify({ skills: [{ name: "alpha" }], updatedAt: "x" }));
+
+    const result = runCli(["validate", "--file", filePath, "--json"], sandboxEnv);
+    expect(result.status).toBe(1);
+    const parsed = JSON.parse(result.stdout);
+    expect(parsed.valid).toBe(false);
+    expect(parsed.issues).toContainEqual({
+      path: "$.skills[0].source",
+      message: "is required (owner/repo)",
+    });
+  });
+
   it("supports auth logout --yes", () => {
     const result = runCli(["auth", "logout", "--yes"], sandboxEnv);
     expect(result.status).toBe(0);
     expect(result.stdout).toContain("Logout completed");
   });
+
+  it("creates and switches profiles", () => {
+    const created = runCli(["profile", "create", "work"], sandboxEnv);
+    expect(created.status).toBe(0);
+
+    const listed = runCli(["profile", "list", "--profile", "work", "--json"], sandboxEnv);
+    expect(listed.status).toBe(0);
+    const parsed = JSON.parse(listed.stdout);
+    expect(parsed.activeProfile).toBe("work");
+    expect(parsed.profiles.map((item: { name: string }) => item.name)).toEqual([
+      "default",
+      "work",
+    ]);
+
+    const deleted = runCli(["profile", "delete", "work", "--yes"], sandboxEnv);
+    expect(deleted.status).toBe(0);
+  });
+
+  it("prints JSON errors with the message and a separate code", () => {
+    const result = runCli(["--inventory-source", "scan", "verify", "--json"], {
+      ...sandboxEnv,
+      SKILLHUB_SKILL_ROOTS: resolve(sandboxDir, "missing"),
+    });
+
+    expect(result.status).toBe(1);
+    expect(JSON.parse(result.stdout)).toEqual({
+      ok: false,
+      error: expect.stringContaining("Unable to construct local skills list."),
+      code: "INVENTORY_UNAVAILABLE",
+    });
+  });
+
+  it("rejects unknown or invalid profile names instead of creating them", () => {
+    const unknown = runCli(["--profile", "wrok", "remote", "show"], sandboxEnv);
+    expect(unknown.status).toBe(1);
+    expect(unknown.stderr).toContain('Profile "wrok" does not exist');
+
+    const invalid = runCli(["remote", "show"], { ...sandboxEnv, SKILLHUB_PROFILE: "../x" });
+    expect(invalid.status).toBe(1);
+    expect(invalid.stderr).toContain('Invalid profile name "../x"');
+  });
 });
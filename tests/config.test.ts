@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { ConfigApi, ConfigShape, migrateLegacyConfig } from "@/service/config";
+
+function createMemoryConfig(initial: ConfigShape) {
+  const data: ConfigShape = { ...initial };
+  const config: ConfigApi<ConfigShape> = {
+    get: (key) => data[key],
+    set: (key, value) => {
+      data[key] = value;
+    },
+    delete: (key) => {
+      delete data[key];
+    },
+  };
+  return { data, config };
+}
+
+describe("config", () => {
+  it("migrates legacy single-profile keys into the default profile", () => {
+    const { data, config } = createMemoryConfig({
+      githubToken: "token",
+      gistId: "gist-id",
+      lastSyncAt: "2026-01-01T00:00:00.000Z",
+    });
+
+    expect(migrateLegacyConfig(config)).toBe(true);
+    expect(data).toEqual({
+      profiles: {
+        default: {
+          githubToken: "token",
+          gistId: "gist-id",
+          lastSyncAt: "2026-01-01T00:00:00.000Z",
+        },
+      },
+    });
+  });
+
+  it("keeps existing profile values and leaves migrated configs untouched", () => {
+    const { data, config } = createMemoryConfig({
+      gistId: "legacy-gist",
+      profiles: {
+        default: { gistId: "current-gist" },
+        work: { githubToken: "work-token" },
+      },
+    });
+
+    migrateLegacyConfig(config);
+    expect(data.gistId).toBeUndefined();
+    expect(data.profiles?.default).toEqual({ gistId: "current-gist" });
+    expect(migrateLegacyConfig(config)).toBe(false);
+  });
+});
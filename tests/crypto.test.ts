@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { decryptWithPassphrase, encryptWithPassphrase } from "@/utils/crypto";
+
+describe("passphrase encryption", () => {
+  it("round-trips plaintext with a fresh salt and iv each time", () => {
+    const first = encryptWithPassphrase("ghp_secret", "correct horse");
+    const second = encryptWithPassphrase("ghp_secret", "correct horse");
+
+    expect(first.ciphertext).not.toBe(second.ciphertext);
+    expect(decryptWithPassphrase(first, "correct horse")).toBe("ghp_secret");
+  });
+
+  it("distinguishes a wrong passphrase from corrupt ciphertext", () => {
+    const envelope = encryptWithPassphrase("ghp_secret", "correct horse");
+
+    expect(() => decryptWithPassphrase(envelope, "wrong")).toThrow(
+      expect.objectContaining({ code: "WRONG_PASSPHRASE" })
+    );
+
+    const tampered = Buffer.from(envelope.ciphertext, "base64");
+    tampered[0] = tampered[0]! ^ 0xff;
+    expect(() =>
+      decryptWithPassphrase(
+        { ...envelope, ciphertext: tampered.toString("base64") },
+        "correct horse"
+      )
+    ).toThrow(expect.objectContaining({ code: "CORRUPT_CIPHERTEXT" }));
+  });
+});
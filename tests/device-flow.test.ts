@@ -0,0 +1,96 @@
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  DeviceFlowConfig,
+  pollForDeviceToken,
+  requestDeviceCode,
+  resolveDeviceFlowConfig,
+} from "@/service/deviceFlow";
+
+describe("device flow", () => {
+  let server: Server;
+  let config: DeviceFlowConfig;
+  let tokenResponses: Record<string, unknown>[];
+  const requests: { path: string; body: URLSearchParams }[] = [];
+
+  beforeEach(async () => {
+    requests.length = 0;
+    tokenResponses = [];
+    server = createServer((request, response) => {
+      let raw = "";
+      request.on("data", (chunk) => {
+        raw += chunk;
+      });
+      request.on("end", () => {
+        requests.push({ path: request.url ?? "", body: new URLSearchParams(raw) });
+        const body =
+          request.url === "/login/device/code"
+            ? {
+                device_code: "device-123",
+                user_code: "ABCD-1234",
+                verification_uri: "https://example.test/login/device",
+                expires_in: 900,
+                interval: 1,
+              }
+            : tokenResponses.shift() ?? { error: "expired_token" };
+        response.setHeader("Content-Type", "application/json");
+        response.end(JSON.stringify(body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    config = resolveDeviceFlowConfig(`http://127.0.0.1:${port}/api/v3`, "client-1");
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("requests a user code and polls until the token is issued", async () => {
+    tokenResponses.push(
+      { error: "authorization_pending" },
+      { error: "slow_down", interval: 6 },
+      { access_token: "gho_device_token", token_type: "bearer", scope: "gist" }
+    );
+    const waits: number[] = [];
+
+    const code = await requestDeviceCode(config);
+    expect(code.userCode).toBe("ABCD-1234");
+
+    const token = await pollForDeviceToken(config, code, {
+      sleep: async (ms) => {
+        waits.push(ms);
+      },
+    });
+
+    expect(token).toBe("gho_device_token");
+    expect(waits).toEqual([1000, 1000, 6000]);
+    expect(requests[0]?.body.get("scope")).toBe("gist");
+    expect(requests[1]?.path).toBe("/login/oauth/access_token");
+    expect(requests[1]?.body.get("device_code")).toBe("device-123");
+  });
+
+  it("fails when the user denies access", async () => {
+    tokenResponses.push({ error: "access_denied" });
+    const code = await requestDeviceCode(config);
+
+    await expect(
+      pollForDeviceToken(config, code, { sleep: async () => {} })
+    ).rejects.toThrow("Authorization was denied");
+  });
+
+  it("requires a client id", () => {
+    const previous = process.env.SKILLHUB_OAUTH_CLIENT_ID;
+    delete process.env.SKILLHUB_OAUTH_CLIENT_ID;
+    try {
+      expect(() => resolveDeviceFlowConfig("https://api.github.com")).toThrow(
+        "No OAuth app client id"
+      );
+    } finally {
+      if (previous !== undefined) {
+        process.env.SKILLHUB_OAUTH_CLIENT_ID = previous;
+      }
+    }
+  });
+});
@@ -0,0 +1,76 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  hashEmbeddedFiles,
+  MAX_EMBEDDED_FILE_BYTES,
+  readEmbeddedSkill,
+  writeEmbeddedSkill,
+} from "@/service/embeddedSkills";
+
+describe("embedded skills", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "skillhub-embedded-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("round-trips text and binary files with a stable hash", async () => {
+    const source = path.join(directory, "source", "my-skill");
+    await fs.mkdir(path.join(source, "assets"), { recursive: true });
+    await fs.writeFile(path.join(source, "SKILL.md"), "---\nname: my-skill\n---\n");
+    await fs.writeFile(
+      path.join(source, "assets", "logo.png"),
+      Buffer.from([0x89, 0x50, 0, 0xff])
+    );
+    await fs.writeFile(path.join(source, ".DS_Store"), "ignored");
+
+    const skill = await readEmbeddedSkill({ name: "my-skill", description: null, path: source });
+
+    expect(skill.source).toBe("local");
+    expect(skill.embedded?.files).toEqual([
+      { path: "SKILL.md", encoding: "utf8", content: "---\nname: my-skill\n---\n" },
+      { path: "assets/logo.png", encoding: "base64", content: "iVAA/w==" },
+    ]);
+
+    const root = path.join(directory, "installed");
+    const target = await writeEmbeddedSkill(root, skill);
+    const reread = await readEmbeddedSkill({ name: "my-skill", description: null, path: target });
+
+    expect(target).toBe(path.join(root, "my-skill"));
+    expect(reread.embedded?.hash).toBe(skill.embedded?.hash);
+    expect(await fs.readdir(root)).toEqual(["my-skill"]);
+  });
+
+  it("rejects oversized files", async () => {
+    const source = path.join(directory, "big");
+    await fs.mkdir(source);
+    await fs.writeFile(path.join(source, "data.txt"), "x".repeat(MAX_EMBEDDED_FILE_BYTES + 1));
+
+    await expect(
+      readEmbeddedSkill({ name: "big", description: null, path: source })
+    ).rejects.toMatchObject({ code: "EMBEDDED_SKILL_REJECTED" });
+  });
+
+  it("refuses to write files that do not match the hash", async () => {
+    const files = [{ path: "SKILL.md", encoding: "utf8" as const, content: "original" }];
+    const skill = {
+      name: "tampered",
+      source: "local",
+      embedded: {
+        hash: hashEmbeddedFiles(files),
+        files: [{ ...files[0]!, content: "changed" }],
+      },
+    };
+
+    await expect(writeEmbeddedSkill(directory, skill)).rejects.toMatchObject({
+      code: "EMBEDDED_HASH_MISMATCH",
+    });
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+});
@@ -0,0 +1,144 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+vi.mock("@/service/config", () => ({
+  configStore: {
+    getPayloadEncryption: vi.fn(async () => false),
+  },
+}));
+
+import { createFileRemoteStore } from "@/service/fileStore";
+import { ENCRYPTED_PAYLOAD_FORMAT } from "@/service/payloadCodec";
+import { parseRemoteUrl } from "@/service/remoteStore";
+import { encryptWithPassphrase } from "@/utils/crypto";
+
+describe("file remote store", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "skillhub-file-store-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("creates, reads and lists revisions of the payload", async () => {
+    const store = createFileRemoteStore(directory);
+    expect(await store.locate()).toEqual({
+      id: null,
+      payload: null,
+      revision: null,
+      corrupt: false,
+    });
+
+    const created = await store.create({
+      skills: [{ name: "alpha", source: "org/repo" }],
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+    const located = await store.locate();
+    expect(located.id).toBe(created.id);
+    expect(located.revision).toBe(created.revision);
+    expect(located.payload?.skills).toEqual([{ name: "alpha", source: "org/repo" }]);
+
+    const written = await store.write(
+      created.id,
+      { skills: [], updatedAt: "2026-01-02T00:00:00.000Z" },
+      { expectedRevision: created.revision }
+    );
+    const revisions = await store.history(created.id);
+    expect(revisions.map((item) => item.revision).sort()).toEqual(
+      [created.revision, written.revision].sort()
+    );
+    expect(
+      (await store.readRevision(created.id, created.revision!))?.skills
+    ).toEqual([{ name: "alpha", source: "org/repo" }]);
+  });
+
+  it("rejects writes based on a stale revision", async () => {
+    const store = createFileRemoteStore(directory);
+    const created = await store.create({ skills: [], updatedAt: "2026-01-01T00:00:00.000Z" });
+    await store.write(created.id, {
+      skills: [{ name: "beta", source: "org/repo" }],
+      updatedAt: "2026-01-02T00:00:00.000Z",
+    });
+
+    await expect(
+      store.write(
+        created.id,
+        { skills: [], updatedAt: "2026-01-03T00:00:00.000Z" },
+        { expectedRevision: created.revision }
+      )
+    ).rejects.toMatchObject({ code: "REMOTE_CONFLICT" });
+  });
+
+  it("requires --recreate to replace an unreadable payload", async () => {
+    await fs.writeFile(path.join(directory, "skillhub.json"), "{ not json", "utf-8");
+    const store = createFileRemoteStore(directory);
+
+    await expect(store.locate()).rejects.toMatchObject({ code: "INVALID_PAYLOAD" });
+    const located = await store.locate({ recreate: true });
+    expect(located).toMatchObject({ id: directory, payload: null, corrupt: true });
+
+    await store.write(
+      located.id,
+      { skills: [{ name: "alpha", source: "org/repo" }], updatedAt: "2026-01-02T00:00:00.000Z" },
+      { expectedRevision: located.revision }
+    );
+
+    expect((await store.locate()).payload?.skills).toEqual([
+      { name: "alpha", source: "org/repo" },
+    ]);
+  });
+
+  it("keeps an encrypted payload encrypted when this profile has encryption off", async () => {
+    process.env.SKILLHUB_PAYLOAD_PASSPHRASE = "team secret";
+    const payloadPath = path.join(directory, "skillhub.json");
+    const plaintext = JSON.stringify({
+      schemaVersion: 4,
+      skills: [],
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+    await fs.writeFile(
+      payloadPath,
+      JSON.stringify({
+        format: ENCRYPTED_PAYLOAD_FORMAT,
+        version: 1,
+        envelope: encryptWithPassphrase(plaintext, "team secret"),
+      }),
+      "utf-8"
+    );
+    const store = createFileRemoteStore(directory);
+
+    try {
+      const located = await store.locate();
+      await store.write(
+        located.id,
+        {
+          skills: [{ name: "alpha", source: "internal/secret-repo" }],
+          updatedAt: "2026-01-02T00:00:00.000Z",
+        },
+        { expectedRevision: located.revision }
+      );
+
+      const content = await fs.readFile(payloadPath, "utf-8");
+      expect(content).not.toContain("secret-repo");
+      expect(JSON.parse(content)).toMatchObject({ format: ENCRYPTED_PAYLOAD_FORMAT });
+      expect((await store.locate()).payload?.skills).toEqual([
+        { name: "alpha", source: "internal/secret-repo" },
+      ]);
+    } finally {
+      delete process.env.SKILLHUB_PAYLOAD_PASSPHRASE;
+    }
+  });
+
+  it("parses supported remote URLs", () => {
+    expect(parseRemoteUrl("gist")).toEqual({ kind: "gist" });
+    expect(parseRemoteUrl("file:///tmp/skillhub")).toEqual({
+      kind: "file",
+      directory: "/tmp/skillhub",
+    });
+    expect(() => parseRemoteUrl("s3://bucket")).toThrow("Unsupported remote");
+  });
+});
@@ -0,0 +1,185 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  mockConfigStore,
+  mockCreateOctokit,
+  mockListSkillhubGists,
+  mockCreateSkillhubGist,
+  mockGetSkillhubSnapshot,
+  mockEmitOutput,
+} = vi.hoisted(() => ({
+  mockConfigStore: {
+    getToken: vi.fn(),
+    getGitHubBaseUrl: vi.fn(),
+    getGistId: vi.fn(),
+    setGistId: vi.fn(),
+    getBaseSkills: vi.fn(),
+    clearBaseSkills: vi.fn(),
+    clearLastSyncAt: vi.fn(),
+  },
+  mockCreateOctokit: vi.fn(),
+  mockListSkillhubGists: vi.fn(),
+  mockCreateSkillhubGist: vi.fn(),
+  mockGetSkillhubSnapshot: vi.fn(),
+  mockEmitOutput: vi.fn(),
+}));
+
+vi.mock("@/service/config", () => ({
+  configStore: mockConfigStore,
+}));
+
+vi.mock("@/service/gistService", () => ({
+  SKILLHUB_FILENAME: "skillhub.json",
+  createOctokit: mockCreateOctokit,
+  listSkillhubGists: mockListSkillhubGists,
+  createSkillhubGist: mockCreateSkillhubGist,
+  getSkillhubSnapshot: mockGetSkillhubSnapshot,
+}));
+
+vi.mock("@/utils/output", () => ({
+  emitOutput: mockEmitOutput,
+}));
+
+import {
+  parseGistReference,
+  runGistAdopt,
+  runGistCreate,
+  runGistList,
+  runGistUse,
+} from "@/commands/gist";
+import { CliError, PayloadValidationError } from "@/utils/errors";
+
+const OLD_ID = "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const NEW_ID = "bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+
+const CANDIDATES = [
+  {
+    id: NEW_ID,
+    description: "SkillHub sync",
+    updatedAt: "2026-02-01T00:00:00Z",
+    htmlUrl: `https://gist.github.com/me/${NEW_ID}`,
+  },
+  {
+    id: OLD_ID,
+    description: "old experiment",
+    updatedAt: "2026-01-01T00:00:00Z",
+    htmlUrl: `https://gist.github.com/me/${OLD_ID}`,
+  },
+];
+
+const PAYLOAD = {
+  schemaVersion: 4,
+  skills: [
+    { name: "alpha", source: "org/repo" },
+    { name: "beta", source: "org/repo" },
+  ],
+  updatedAt: "2026-02-01T00:00:00.000Z",
+};
+
+describe("gist commands", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockCreateOctokit.mockReturnValue({});
+    mockConfigStore.getToken.mockResolvedValue("token");
+    mockConfigStore.getGistId.mockResolvedValue(OLD_ID);
+    mockConfigStore.getBaseSkills.mockResolvedValue([{ name: "alpha", source: "org/repo" }]);
+    mockListSkillhubGists.mockResolvedValue(CANDIDATES);
+  });
+
+  it("parses gist ids and URLs", () => {
+    expect(parseGistReference(NEW_ID)).toBe(NEW_ID);
+    expect(parseGistReference(`https://gist.github.com/teammate/${NEW_ID}`)).toBe(NEW_ID);
+    expect(parseGistReference(`https://github.example.com/gist/teammate/${NEW_ID}.git`)).toBe(
+      NEW_ID
+    );
+    expect(() => parseGistReference("https://gist.github.com/teammate")).toThrow(
+      "Invalid gist reference"
+    );
+  });
+
+  it("lists candidates with skill counts and marks the pinned gist", async () => {
+    mockGetSkillhubSnapshot.mockImplementation(async (_octokit: unknown, gistId: string) => {
+      if (gistId === OLD_ID) {
+        throw new PayloadValidationError([{ path: "$.skills", message: "must be an array" }]);
+      }
+      return { payload: PAYLOAD, revision: "rev-1" };
+    });
+
+    const summary = await runGistList();
+
+    expect(summary.pinnedGistId).toBe(OLD_ID);
+    expect(summary.gists).toEqual([
+      expect.objectContaining({ id: NEW_ID, pinned: false, skillCount: 2, readError: null }),
+      expect.objectContaining({ id: OLD_ID, pinned: true, skillCount: null }),
+    ]);
+    expect(summary.gists[1]?.readError).toContain("must be an array");
+  });
+
+  it("keeps listing when a gist cannot be decrypted", async () => {
+    mockGetSkillhubSnapshot.mockImplementation(async (_octokit: unknown, gistId: string) => {
+      if (gistId === NEW_ID) {
+        throw new CliError("WRONG_PASSPHRASE", "Wrong passphrase for the encrypted payload.");
+      }
+      return { payload: PAYLOAD, revision: "rev-1" };
+    });
+
+    const summary = await runGistList();
+
+    expect(summary.gists).toEqual([
+      expect.objectContaining({
+        id: NEW_ID,
+        skillCount: null,
+        readError: "Wrong passphrase for the encrypted payload.",
+      }),
+      expect.objectContaining({ id: OLD_ID, skillCount: 2, readError: null }),
+    ]);
+  });
+
+  it("pins a listed gist and drops the previous sync base", async () => {
+    const summary = await runGistUse(NEW_ID);
+
+    expect(mockConfigStore.setGistId).toHaveBeenCalledWith(NEW_ID);
+    expect(mockConfigStore.clearBaseSkills).toHaveBeenCalledTimes(1);
+    expect(mockConfigStore.clearLastSyncAt).toHaveBeenCalledTimes(1);
+    expect(summary).toEqual({ action: "use", gistId: NEW_ID, baseReset: true });
+  });
+
+  it("keeps the sync base when the pinned gist does not change", async () => {
+    const summary = await runGistUse(OLD_ID);
+
+    expect(mockConfigStore.clearBaseSkills).not.toHaveBeenCalled();
+    expect(summary.baseReset).toBe(false);
+  });
+
+  it("refuses to pin a gist that is not one of the candidates", async () => {
+    await expect(runGistUse("cccccccccccccccccccccccccccccccc")).rejects.toMatchObject({
+      code: "REMOTE_NOT_FOUND",
+    });
+    expect(mockConfigStore.setGistId).not.toHaveBeenCalled();
+  });
+
+  it("creates an empty gist and pins it", async () => {
+    mockCreateSkillhubGist.mockResolvedValue({ id: NEW_ID });
+
+    const summary = await runGistCreate();
+
+    expect(mockCreateSkillhubGist).toHaveBeenCalledWith(
+      {},
+      expect.objectContaining({ skills: [] })
+    );
+    expect(mockConfigStore.setGistId).toHaveBeenCalledWith(NEW_ID);
+    expect(summary.action).toBe("create");
+  });
+
+  it("adopts a readable gist by URL and rejects unreadable ones", async () => {
+    mockGetSkillhubSnapshot.mockResolvedValueOnce({ payload: PAYLOAD, revision: "rev-1" });
+    await expect(
+      runGistAdopt(`https://gist.github.com/teammate/${NEW_ID}`)
+    ).resolves.toMatchObject({ action: "adopt", gistId: NEW_ID });
+
+    mockConfigStore.setGistId.mockClear();
+    mockGetSkillhubSnapshot.mockResolvedValueOnce({ payload: null, revision: "rev-1" });
+    await expect(runGistAdopt(NEW_ID)).rejects.toMatchObject({ code: "INVALID_PAYLOAD" });
+    expect(mockConfigStore.setGistId).not.toHaveBeenCalled();
+  });
+});
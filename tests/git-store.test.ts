@@ -0,0 +1,158 @@
+import { execFile } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+vi.mock("@/service/config", () => ({
+  configStore: {
+    getPayloadEncryption: vi.fn(async () => false),
+  },
+}));
+
+import { createGitRemoteStore } from "@/service/gitStore";
+import { parseRemoteUrl } from "@/service/remoteStore";
+
+const execFileAsync = promisify(execFile);
+
+describe("git remote store", () => {
+  let root: string;
+  let repository: string;
+
+  const openStore = (cacheName: string) =>
+    createGitRemoteStore({
+      repository,
+      branch: "main",
+      filePath: "config/skillhub.json",
+      cacheDir: path.join(root, cacheName),
+    });
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "skillhub-git-store-"));
+    repository = path.join(root, "remote.git");
+    await execFileAsync("git", ["init", "--bare", "--quiet", repository]);
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("commits uploads with a message listing added and removed skills", async () => {
+    const store = openStore("cache-a");
+    expect(await store.locate()).toEqual({
+      id: null,
+      payload: null,
+      revision: null,
+      corrupt: false,
+    });
+
+    const created = await store.create({
+      skills: [{ name: "alpha", source: "org/repo" }],
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+    const written = await store.write(
+      created.id,
+      {
+        skills: [{ name: "beta", source: "org/repo" }],
+        updatedAt: "2026-01-02T00:00:00.000Z",
+      },
+      { expectedRevision: created.revision }
+    );
+
+    const { stdout } = await execFileAsync("git", ["log", "-1", "--format=%B", "main"], {
+      cwd: repository,
+    });
+    expect(stdout.trim()).toBe(
+      [
+        "Update config/skillhub.json (+1 -1)",
+        "",
+        "Added:",
+        "- beta (org/repo)",
+        "",
+        "Removed:",
+        "- alpha (org/repo)",
+      ].join("\n")
+    );
+
+    const located = await openStore("cache-b").locate();
+    expect(located.revision).toBe(written.revision);
+    expect(located.payload?.skills).toEqual([{ name: "beta", source: "org/repo" }]);
+
+    const revisions = await store.history(created.id);
+    expect(revisions.map((item) => item.revision)).toEqual([
+      written.revision,
+      created.revision,
+    ]);
+    expect((await store.readRevision(created.id, created.revision!))?.skills).toEqual([
+      { name: "alpha", source: "org/repo" },
+    ]);
+  });
+
+  it("reports a conflict when the branch moved since it was read", async () => {
+    const first = openStore("cache-a");
+    const second = openStore("cache-b");
+    const created = await first.create({ skills: [], updatedAt: "2026-01-01T00:00:00.000Z" });
+
+    await second.write(created.id, {
+      skills: [{ name: "gamma", source: "org/repo" }],
+      updatedAt: "2026-01-02T00:00:00.000Z",
+    });
+
+    await expect(
+      first.write(
+        created.id,
+        { skills: [], updatedAt: "2026-01-03T00:00:00.000Z" },
+        { expectedRevision: created.revision }
+      )
+    ).rejects.toMatchObject({ code: "REMOTE_CONFLICT" });
+  });
+
+  it("recreates a payload over a corrupt commit", async () => {
+    const work = path.join(root, "work");
+    await execFileAsync("git", ["clone", "--quiet", repository, work]);
+    await fs.mkdir(path.join(work, "config"));
+    await fs.writeFile(path.join(work, "config", "skillhub.json"), "{ not json", "utf-8");
+    const gitInWork = (args: string[]) =>
+      execFileAsync(
+        "git",
+        ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args],
+        { cwd: work }
+      );
+    await gitInWork(["add", "-A"]);
+    await gitInWork(["commit", "--quiet", "-m", "Break payload"]);
+    await gitInWork(["push", "--quiet", "origin", "HEAD:main"]);
+
+    const store = openStore("cache-a");
+    await expect(store.locate()).rejects.toMatchObject({ code: "INVALID_PAYLOAD" });
+    const located = await store.locate({ recreate: true });
+    expect(located).toMatchObject({ payload: null, corrupt: true });
+
+    await store.write(
+      located.id,
+      { skills: [{ name: "alpha", source: "org/repo" }], updatedAt: "2026-01-02T00:00:00.000Z" },
+      { expectedRevision: located.revision }
+    );
+
+    expect((await openStore("cache-b").locate()).payload?.skills).toEqual([
+      { name: "alpha", source: "org/repo" },
+    ]);
+  });
+
+  it("parses git remote URLs with branch and path options", () => {
+    expect(
+      parseRemoteUrl("git+ssh://git@example.com/me/skills.git#branch=dev&path=a/b.json")
+    ).toEqual({
+      kind: "git",
+      repository: "ssh://git@example.com/me/skills.git",
+      branch: "dev",
+      filePath: "a/b.json",
+    });
+    expect(parseRemoteUrl("git+/srv/skills.git")).toMatchObject({
+      branch: "main",
+      filePath: "skillhub.json",
+    });
+    expect(() => parseRemoteUrl("git+/srv/skills.git#path=../x.json")).toThrow(
+      "path must be a file inside the repository"
+    );
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_GITHUB_API_URL,
+  getGitHubHost,
+  normalizeGitHubBaseUrl,
+} from "@/service/githubHost";
+
+describe("github host", () => {
+  it("maps github.com to the public API", () => {
+    expect(normalizeGitHubBaseUrl("github.com")).toBe(DEFAULT_GITHUB_API_URL);
+    expect(normalizeGitHubBaseUrl("https://api.github.com/")).toBe(DEFAULT_GITHUB_API_URL);
+    expect(getGitHubHost(DEFAULT_GITHUB_API_URL)).toBe("github.com");
+  });
+
+  it("derives the Enterprise Server API URL from a hostname", () => {
+    expect(normalizeGitHubBaseUrl("ghe.example.com")).toBe(
+      "https://ghe.example.com/api/v3"
+    );
+    expect(normalizeGitHubBaseUrl("http://ghe.local:8080/api/v3/")).toBe(
+      "http://ghe.local:8080/api/v3"
+    );
+    expect(getGitHubHost("https://ghe.example.com/api/v3")).toBe("ghe.example.com");
+    expect(() => normalizeGitHubBaseUrl(" ")).toThrow("must not be empty");
+  });
+});
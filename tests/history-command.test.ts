@@ -0,0 +1,233 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { CliError, PayloadValidationError } from "@/utils/errors";
+
+const {
+  mockPrompt,
+  mockConfigStore,
+  mockCreateOctokit,
+  mockListSkillhubGists,
+  mockGetSkillhubSnapshot,
+  mockGetSkillhubRevision,
+  mockListSkillhubRevisions,
+  mockGetSkillhubPayloadAtRevision,
+  mockUpdateSkillhubGist,
+  mockGetLocalSkills,
+  mockInstallSkills,
+  mockRemoveSkills,
+  mockIsValidSource,
+  mockEmitOutput,
+  mockHoldBackModifiedSkills,
+} = vi.hoisted(() => ({
+  mockPrompt: vi.fn(),
+  mockConfigStore: {
+    getToken: vi.fn(),
+    getRemote: vi.fn(),
+    getGitHubBaseUrl: vi.fn(),
+    getGistId: vi.fn(),
+    setGistId: vi.fn(),
+    setLastSyncAt: vi.fn(),
+    setBaseSkills: vi.fn(),
+  },
+  mockCreateOctokit: vi.fn(),
+  mockListSkillhubGists: vi.fn(),
+  mockGetSkillhubSnapshot: vi.fn(),
+  mockGetSkillhubRevision: vi.fn(),
+  mockListSkillhubRevisions: vi.fn(),
+  mockGetSkillhubPayloadAtRevision: vi.fn(),
+  mockUpdateSkillhubGist: vi.fn(),
+  mockGetLocalSkills: vi.fn(),
+  mockInstallSkills: vi.fn(),
+  mockRemoveSkills: vi.fn(),
+  mockIsValidSource: vi.fn(),
+  mockEmitOutput: vi.fn(),
+  mockHoldBackModifiedSkills: vi.fn(),
+}));
+
+vi.mock("inquirer", () => ({
+  default: {
+    prompt: mockPrompt,
+  },
+}));
+
+vi.mock("@/service/config", () => ({
+  configStore: mockConfigStore,
+}));
+
+vi.mock("@/service/gistService", () => ({
+  SKILLHUB_FILENAME: "skillhub.json",
+  createOctokit: mockCreateOctokit,
+  listSkillhubGists: mockListSkillhubGists,
+  getSkillhubSnapshot: mockGetSkillhubSnapshot,
+  getSkillhubRevision: mockGetSkillhubRevision,
+  listSkillhubRevisions: mockListSkillhubRevisions,
+  getSkillhubPayloadAtRevision: mockGetSkillhubPayloadAtRevision,
+  updateSkillhubGist: mockUpdateSkillhubGist,
+}));
+
+vi.mock("@/service/skillsService", () => ({
+  getLocalSkills: mockGetLocalSkills,
+  installSkills: mockInstallSkills,
+  removeSkills: mockRemoveSkills,
+  isValidSource: mockIsValidSource,
+}));
+
+vi.mock("@/service/skillChecksums", () => ({
+  holdBackModifiedSkills: mockHoldBackModifiedSkills,
+}));
+
+vi.mock("@/utils/output", () => ({
+  emitOutput: mockEmitOutput,
+}));
+
+import { runHistory } from "@/commands/history";
+import { runRestore } from "@/commands/restore";
+
+const REVISION_PAYLOADS: Record<string, unknown> = {
+  "ccc333": {
+    skills: [
+      { name: "alpha", source: "org/repo" },
+      { name: "gamma", source: "org/repo" },
+    ],
+    updatedAt: "2026-01-03T00:00:00.000Z",
+  },
+  "bbb222": {
+    skills: [
+      { name: "alpha", source: "org/repo" },
+      { name: "beta", source: "org/repo" },
+    ],
+    updatedAt: "2026-01-02T00:00:00.000Z",
+  },
+  "aaa111": {
+    skills: [{ name: "alpha", source: "org/repo" }],
+    updatedAt: "2026-01-01T00:00:00.000Z",
+  },
+};
+
+describe("history and restore commands", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockCreateOctokit.mockReturnValue({});
+    mockConfigStore.getToken.mockResolvedValue("token");
+    mockConfigStore.getGistId.mockResolvedValue("gist-id");
+    mockGetSkillhubSnapshot.mockResolvedValue({
+      payload: REVISION_PAYLOADS["ccc333"],
+      revision: "ccc333",
+    });
+    mockListSkillhubRevisions.mockResolvedValue([
+      { revision: "ccc333", committedAt: "2026-01-03T00:00:00Z" },
+      { revision: "bbb222", committedAt: "2026-01-02T00:00:00Z" },
+      { revision: "aaa111", committedAt: "2026-01-01T00:00:00Z" },
+    ]);
+    mockGetSkillhubPayloadAtRevision.mockImplementation(
+      async (_octokit: unknown, _gistId: string, revision: string) =>
+        REVISION_PAYLOADS[revision] ?? null
+    );
+    mockGetLocalSkills.mockResolvedValue([
+      { name: "alpha", source: "org/repo" },
+      { name: "gamma", source: "org/repo" },
+    ]);
+    mockInstallSkills.mockResolvedValue({ succeeded: [], failed: [] });
+    mockRemoveSkills.mockResolvedValue({ succeeded: [], failed: [] });
+    mockIsValidSource.mockReturnValue(true);
+    mockHoldBackModifiedSkills.mockImplementation(async (candidates: unknown[]) => ({
+      heldBack: [],
+      allowed: candidates,
+    }));
+    mockPrompt.mockResolvedValue({ confirm: true });
+  });
+
+  it("lists revisions with per-revision added and removed skills", async () => {
+    const summary = await runHistory({ limit: 2 });
+
+    expect(summary.revisions).toHaveLength(2);
+    expect(summary.revisions[0]).toMatchObject({
+      revision: "ccc333",
+      skillCount: 2,
+      added: [{ name: "gamma", source: "org/repo" }],
+      removed: [{ name: "beta", source: "org/repo" }],
+    });
+    expect(summary.revisions[1]).toMatchObject({
+      revision: "bbb222",
+      added: [{ name: "beta", source: "org/repo" }],
+      removed: [],
+    });
+  });
+
+  it("lists the other revisions when one cannot be read", async () => {
+    mockGetSkillhubSnapshot.mockRejectedValue(
+      new PayloadValidationError([{ path: "$.skills", message: "must be an array" }])
+    );
+    mockGetSkillhubPayloadAtRevision.mockImplementation(
+      async (_octokit: unknown, _gistId: string, revision: string) => {
+        if (revision === "ccc333") {
+          throw new CliError("CORRUPT_PAYLOAD", "Encrypted skillhub.json is corrupt.");
+        }
+        return REVISION_PAYLOADS[revision] ?? null;
+      }
+    );
+
+    const summary = await runHistory();
+
+    expect(summary.revisions.map((entry) => [entry.revision, entry.valid])).toEqual([
+      ["ccc333", false],
+      ["bbb222", true],
+      ["aaa111", true],
+    ]);
+    expect(summary.revisions[0]?.error).toBe("Encrypted skillhub.json is corrupt.");
+  });
+
+  it("plans a restore without touching remote or local on dry-run", async () => {
+    const summary = await runRestore("bbb", { dryRun: true });
+
+    expect(summary).toMatchObject({
+      revision: "bbb222",
+      target: "both",
+      uploaded: 1,
+      installPlanned: 1,
+      removePlanned: 1,
+    });
+    expect(mockUpdateSkillhubGist).not.toHaveBeenCalled();
+    expect(mockInstallSkills).not.toHaveBeenCalled();
+    expect(mockRemoveSkills).not.toHaveBeenCalled();
+  });
+
+  it("restores only the remote payload with target remote", async () => {
+    await runRestore("aaa111", { target: "remote" });
+
+    expect(mockUpdateSkillhubGist).toHaveBeenCalledWith(
+      {},
+      "gist-id",
+      expect.objectContaining({
+        skills: [{ name: "alpha", source: "org/repo" }],
+      }),
+      { expectedRevision: "ccc333" }
+    );
+    expect(mockGetLocalSkills).not.toHaveBeenCalled();
+    expect(mockConfigStore.setLastSyncAt).not.toHaveBeenCalled();
+  });
+
+  it("restores over an unreadable current payload with recreate", async () => {
+    mockGetSkillhubSnapshot.mockRejectedValue(
+      new PayloadValidationError([{ path: "$.skills", message: "must be an array" }])
+    );
+    mockGetSkillhubRevision.mockResolvedValue("ddd444");
+
+    await expect(runRestore("aaa111", { target: "remote" })).rejects.toMatchObject({
+      code: "INVALID_PAYLOAD",
+    });
+    await runRestore("aaa111", { target: "remote", recreate: true });
+
+    expect(mockUpdateSkillhubGist).toHaveBeenCalledWith(
+      {},
+      "gist-id",
+      expect.objectContaining({
+        skills: [{ name: "alpha", source: "org/repo" }],
+      }),
+      { expectedRevision: "ddd444" }
+    );
+  });
+
+  it("rejects unknown revisions", async () => {
+    await expect(runRestore("zzz")).rejects.toThrow('Revision "zzz" not found');
+  });
+});
@@ -9,6 +9,13 @@ describe("logout", () => {
 
     const removed = await clearStoredSession(store);
     expect(store.clearSession).toHaveBeenCalledTimes(1);
-    expect(removed).toEqual(["githubToken", "gistId", "lastSyncAt"]);
+    expect(removed).toEqual([
+      "githubToken",
+      "githubTokenEncrypted",
+      "authFlow",
+      "gistId",
+      "lastSyncAt",
+      "baseSkills",
+    ]);
   });
 });
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { mockGetPayloadEncryption } = vi.hoisted(() => ({
+  mockGetPayloadEncryption: vi.fn(),
+}));
+
+vi.mock("@/service/config", () => ({
+  configStore: {
+    getPayloadEncryption: mockGetPayloadEncryption,
+  },
+}));
+
+const PAYLOAD = {
+  schemaVersion: 4,
+  skills: [{ name: "alpha", source: "internal/secret-repo" }],
+  updatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+async function loadCodec() {
+  vi.resetModules();
+  return import("@/service/payloadCodec");
+}
+
+describe("payload codec", () => {
+  beforeEach(() => {
+    mockGetPayloadEncryption.mockReset();
+    delete process.env.SKILLHUB_PAYLOAD_PASSPHRASE;
+  });
+
+  it("writes plain JSON unless encryption is enabled", async () => {
+    const codec = await loadCodec();
+    mockGetPayloadEncryption.mockResolvedValue(undefined);
+
+    const content = await codec.encodeSkillhubPayload(PAYLOAD);
+    expect(JSON.parse(content)).toEqual(PAYLOAD);
+    expect(await codec.decodeSkillhubContent(content)).toEqual(PAYLOAD);
+  });
+
+  it("encrypts into a versioned envelope and decrypts transparently", async () => {
+    let codec = await loadCodec();
+    mockGetPayloadEncryption.mockResolvedValue(true);
+    process.env.SKILLHUB_PAYLOAD_PASSPHRASE = "team secret";
+
+    const content = await codec.encodeSkillhubPayload(PAYLOAD);
+    expect(content).not.toContain("secret-repo");
+    expect(JSON.parse(content)).toMatchObject({ format: "skillhub-encrypted", version: 1 });
+
+    codec = await loadCodec();
+    expect(await codec.decodeSkillhubContent(content)).toEqual(PAYLOAD);
+  });
+
+  it("separates a wrong passphrase from a corrupt payload", async () => {
+    let codec = await loadCodec();
+    mockGetPayloadEncryption.mockResolvedValue(true);
+    process.env.SKILLHUB_PAYLOAD_PASSPHRASE = "team secret";
+    const content = await codec.encodeSkillhubPayload(PAYLOAD);
+
+    codec = await loadCodec();
+    process.env.SKILLHUB_PAYLOAD_PASSPHRASE = "wrong";
+    await expect(codec.decodeSkillhubContent(content)).rejects.toMatchObject({
+      code: "WRONG_PASSPHRASE",
+    });
+
+    const document = JSON.parse(content);
+    document.envelope.tag = Buffer.alloc(16).toString("base64");
+    codec = await loadCodec();
+    process.env.SKILLHUB_PAYLOAD_PASSPHRASE = "team secret";
+    await expect(codec.decodeSkillhubContent(JSON.stringify(document))).rejects.toMatchObject({
+      code: "CORRUPT_PAYLOAD",
+    });
+  });
+});
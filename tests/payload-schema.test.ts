@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { parseSkillhubPayload, validateSkillhubPayload } from "@/core/payloadSchema";
+
+describe("payload schema", () => {
+  it("migrates legacy string[] payloads to the current schema", () => {
+    const result = parseSkillhubPayload({
+      skills: ["alpha"],
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      migratedFrom: 0,
+      payload: {
+        schemaVersion: 4,
+        skills: [{ name: "alpha", source: "vercel-labs/agent-skills" }],
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      },
+    });
+  });
+
+  it("migrates unversioned object payloads without touching skills", () => {
+    const result = parseSkillhubPayload({
+      skills: [{ name: "alpha", source: "org/repo" }],
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+
+    expect(result).toMatchObject({ ok: true, migratedFrom: 1 });
+  });
+
+  it("reports every problem with its path", () => {
+    expect(
+      validateSkillhubPayload({
+        schemaVersion: 4,
+        skills: [
+          { name: "alpha" },
+          { name: "", source: "not a repo" },
+          { name: "beta", source: "org/repo" },
+          { name: "beta", source: "org/repo" },
+          "gamma",
+        ],
+        updatedAt: "yesterday",
+      })
+    ).toEqual([
+      { path: "$.updatedAt", message: "must be an ISO 8601 timestamp" },
+      { path: "$.skills[0].source", message: "is required (owner/repo)" },
+      { path: "$.skills[1].name", message: "must be a non-empty string" },
+      { path: "$.skills[1].source", message: "must be in owner/repo format" },
+      { path: "$.skills[3]", message: "duplicates $.skills[2] (beta from org/repo)" },
+      { path: "$.skills[4]", message: "must be an object with name and source" },
+    ]);
+  });
+
+  it("rejects payloads from a newer schema version", () => {
+    const result = parseSkillhubPayload({
+      schemaVersion: 5,
+      skills: [],
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+
+    expect(result).toEqual({
+      ok: false,
+      issues: [
+        {
+          path: "$.schemaVersion",
+          message: "version 5 is newer than supported version 4; upgrade skillhub",
+        },
+      ],
+    });
+  });
+
+  it("validates embedded skills and their files", () => {
+    const hash = `sha256:${"a".repeat(64)}`;
+    expect(
+      validateSkillhubPayload({
+        schemaVersion: 4,
+        skills: [
+          {
+            name: "my-skill",
+            source: "local",
+            embedded: {
+              hash,
+              files: [{ path: "SKILL.md", encoding: "utf8", content: "# Mine" }],
+            },
+          },
+          {
+            name: "../escape",
+            source: "local",
+            ref: "main",
+            embedded: {
+              hash: "md5:1",
+              files: [
+                { path: "../outside.md", encoding: "utf8", content: "" },
+                { path: "logo.png", encoding: "hex", content: 1 },
+              ],
+            },
+          },
+          { name: "gamma", source: "org/repo", embedded: { hash, files: [] } },
+        ],
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      })
+    ).toEqual([
+      {
+        path: "$.skills[1].name",
+        message: "must be a folder name (letters, digits, '.', '_' or '-') for embedded skills",
+      },
+      { path: "$.skills[1].ref", message: "is not allowed for embedded skills" },
+      { path: "$.skills[1].embedded.hash", message: "must be sha256:<64 hex digits>" },
+      {
+        path: "$.skills[1].embedded.files[0].path",
+        message: "must be a relative path inside the skill folder",
+      },
+      { path: "$.skills[1].embedded.files[1].encoding", message: 'must be "utf8" or "base64"' },
+      { path: "$.skills[1].embedded.files[1].content", message: "must be a string" },
+      { path: "$.skills[2].source", message: 'must be "local" for embedded skills' },
+    ]);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { parseSavedPlan, SavedSyncPlan, serializeSavedPlan } from "@/core/planFile";
+
+const SAMPLE_PLAN: SavedSyncPlan = {
+  version: 1,
+  mode: "merge",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  remote: "gist",
+  remoteId: "gist-id",
+  remoteRevision: "rev-1",
+  localSkills: [{ name: "alpha", source: "org/repo" }],
+  remoteSkills: [{ name: "beta", source: "org/repo" }],
+  installCandidates: [{ name: "beta", source: "org/repo" }],
+  removeCandidates: [],
+  uploadPayload: {
+    skills: [
+      { name: "alpha", source: "org/repo" },
+      { name: "beta", source: "org/repo" },
+    ],
+    updatedAt: "2026-01-01T00:00:00.000Z",
+  },
+};
+
+describe("plan file", () => {
+  it("round-trips a saved plan", () => {
+    expect(parseSavedPlan(serializeSavedPlan(SAMPLE_PLAN))).toEqual(SAMPLE_PLAN);
+  });
+
+  it("rejects unsupported versions and malformed skill lists", () => {
+    expect(() =>
+      parseSavedPlan(JSON.stringify({ ...SAMPLE_PLAN, version: 2 }))
+    ).toThrow("unsupported version 2");
+    expect(() =>
+      parseSavedPlan(
+        JSON.stringify({ ...SAMPLE_PLAN, installCandidates: [{ name: "x" }] })
+      )
+    ).toThrow('"installCandidates[0]" must have string "name" and "source"');
+    expect(() => parseSavedPlan("not json")).toThrow("not valid JSON");
+  });
+});
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PayloadValidationError } from "@/utils/errors";
+
+const {
+  mockConfigStore,
+  mockCreateOctokit,
+  mockListSkillhubGists,
+  mockGetSkillhubSnapshot,
+  mockGetSkillhubRevision,
+} = vi.hoisted(() => ({
+  mockConfigStore: {
+    getGistId: vi.fn(),
+    setGistId: vi.fn(),
+    clearGistId: vi.fn(),
+  },
+  mockCreateOctokit: vi.fn(),
+  mockListSkillhubGists: vi.fn(),
+  mockGetSkillhubSnapshot: vi.fn(),
+  mockGetSkillhubRevision: vi.fn(),
+}));
+
+vi.mock("@/service/config", () => ({
+  configStore: mockConfigStore,
+}));
+
+vi.mock("@/service/gistService", () => ({
+  SKILLHUB_FILENAME: "skillhub.json",
+  createOctokit: mockCreateOctokit,
+  listSkillhubGists: mockListSkillhubGists,
+  getSkillhubSnapshot: mockGetSkillhubSnapshot,
+  getSkillhubRevision: mockGetSkillhubRevision,
+}));
+
+import { createGistRemoteStore } from "@/service/remoteStore";
+
+const PAYLOAD = {
+  schemaVersion: 4,
+  skills: [{ name: "alpha", source: "org/repo" }],
+  updatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+function httpError(status: number) {
+  // Mirrors retryAsync wrapping the Octokit error.
+  return Object.assign(new Error(`gists.get failed: HTTP ${status}`), {
+    cause: { status },
+  });
+}
+
+describe("gist remote store", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockConfigStore.getGistId.mockResolvedValue("configured-gist");
+    mockListSkillhubGists.mockResolvedValue([]);
+  });
+
+  it("drops the configured gist only when it is confirmed gone", async () => {
+    mockGetSkillhubSnapshot.mockRejectedValueOnce(httpError(404));
+
+    const location = await createGistRemoteStore("token").locate();
+
+    expect(mockConfigStore.clearGistId).toHaveBeenCalledTimes(1);
+    expect(mockListSkillhubGists).toHaveBeenCalledTimes(1);
+    expect(location).toEqual({ id: null, payload: null, revision: null, corrupt: false });
+  });
+
+  it("fails on network and auth errors without searching for another gist", async () => {
+    const store = createGistRemoteStore("token");
+
+    mockGetSkillhubSnapshot.mockRejectedValueOnce(new Error("socket hang up"));
+    await expect(store.locate()).rejects.toMatchObject({ code: "REMOTE_UNREACHABLE" });
+
+    mockGetSkillhubSnapshot.mockRejectedValueOnce(httpError(401));
+    await expect(store.locate()).rejects.toMatchObject({ code: "REMOTE_UNAUTHORIZED" });
+
+    expect(mockConfigStore.clearGistId).not.toHaveBeenCalled();
+    expect(mockListSkillhubGists).not.toHaveBeenCalled();
+  });
+
+  it("requires --recreate to replace an invalid payload", async () => {
+    const store = createGistRemoteStore("token");
+    mockGetSkillhubSnapshot.mockRejectedValue(
+      new PayloadValidationError([{ path: "$.skills", message: "must be an array" }])
+    );
+    mockGetSkillhubRevision.mockResolvedValue("rev-broken");
+
+    await expect(store.locate()).rejects.toMatchObject({ code: "INVALID_PAYLOAD" });
+    await expect(store.locate({ recreate: true })).resolves.toEqual({
+      id: "configured-gist",
+      payload: null,
+      revision: "rev-broken",
+      corrupt: true,
+    });
+    expect(mockListSkillhubGists).not.toHaveBeenCalled();
+  });
+
+  it("returns the configured gist when it reads cleanly", async () => {
+    mockGetSkillhubSnapshot.mockResolvedValue({ payload: PAYLOAD, revision: "rev-1" });
+
+    await expect(createGistRemoteStore("token").locate()).resolves.toEqual({
+      id: "configured-gist",
+      payload: PAYLOAD,
+      revision: "rev-1",
+      corrupt: false,
+    });
+  });
+
+  it("warns when several unpinned gists exist and remembers the newest", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockConfigStore.getGistId.mockResolvedValue(undefined);
+    mockListSkillhubGists.mockResolvedValue([
+      { id: "newest-gist", description: null, updatedAt: "2026-02-01T00:00:00Z", htmlUrl: null },
+      { id: "older-gist", description: null, updatedAt: "2026-01-01T00:00:00Z", htmlUrl: null },
+    ]);
+    mockGetSkillhubSnapshot.mockResolvedValue({ payload: PAYLOAD, revision: "rev-1" });
+
+    const location = await createGistRemoteStore("token").locate();
+
+    expect(location.id).toBe("newest-gist");
+    expect(mockConfigStore.setGistId).toHaveBeenCalledWith("newest-gist");
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("Found 2 SkillHub gists"));
+    warn.mockRestore();
+  });
+
+  it("leaves the pinned gist and the console alone when locating read-only", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockGetSkillhubSnapshot
+      .mockRejectedValueOnce(httpError(404))
+      .mockResolvedValue({ payload: PAYLOAD, revision: "rev-1" });
+    mockListSkillhubGists.mockResolvedValue([
+      { id: "newest-gist", description: null, updatedAt: "2026-02-01T00:00:00Z", htmlUrl: null },
+      { id: "older-gist", description: null, updatedAt: "2026-01-01T00:00:00Z", htmlUrl: null },
+    ]);
+
+    const location = await createGistRemoteStore("token").locate({ readOnly: true });
+
+    expect(location.id).toBe("newest-gist");
+    expect(mockConfigStore.clearGistId).not.toHaveBeenCalled();
+    expect(mockConfigStore.setGistId).not.toHaveBeenCalled();
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,90 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const { mockConfigStore, state } = vi.hoisted(() => {
+  const state = { hashes: {} as Record<string, string> };
+  return {
+    state,
+    mockConfigStore: {
+      getSkillRoots: vi.fn(async () => undefined),
+      getInstalledHashes: vi.fn(async () => state.hashes),
+      setInstalledHashes: vi.fn(async (hashes: Record<string, string>) => {
+        state.hashes = hashes;
+      }),
+    },
+  };
+});
+
+vi.mock("@/service/config", () => ({
+  configStore: mockConfigStore,
+}));
+
+import {
+  checkSkillIntegrity,
+  holdBackModifiedSkills,
+  listTrackedSkills,
+  recordInstalledHashes,
+} from "@/service/skillChecksums";
+import { SKILL_ROOTS_ENV_VAR } from "@/service/skillScan";
+
+const alpha = { name: "alpha", source: "org/repo" };
+const beta = { name: "beta", source: "org/repo" };
+const gamma = { name: "gamma", source: "org/repo" };
+
+async function writeSkill(root: string, name: string, body: string) {
+  await fs.mkdir(path.join(root, name), { recursive: true });
+  await fs.writeFile(path.join(root, name, "SKILL.md"), `---\nname: ${name}\n---\n${body}`);
+}
+
+describe("skill checksums", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    state.hashes = {};
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "skillhub-checksums-"));
+    process.env[SKILL_ROOTS_ENV_VAR] = root;
+  });
+
+  afterEach(async () => {
+    delete process.env[SKILL_ROOTS_ENV_VAR];
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("reports unmodified, modified, missing and unknown skills", async () => {
+    await writeSkill(root, "alpha", "original");
+    await writeSkill(root, "beta", "original");
+    await writeSkill(root, "gamma", "original");
+    await recordInstalledHashes([alpha, beta, gamma]);
+
+    await fs.writeFile(path.join(root, "beta", "notes.md"), "hand edit");
+    await fs.rm(path.join(root, "gamma"), { recursive: true });
+    await writeSkill(root, "delta", "installed elsewhere");
+
+    const tracked = await listTrackedSkills([alpha, beta, { name: "delta", source: "org/repo" }]);
+    const results = await checkSkillIntegrity(tracked);
+
+    expect(results.map((result) => [result.skill.name, result.state])).toEqual([
+      ["alpha", "unmodified"],
+      ["beta", "modified"],
+      ["delta", "unknown"],
+      ["gamma", "missing"],
+    ]);
+  });
+
+  it("holds back candidates that would overwrite a modified skill", async () => {
+    await writeSkill(root, "alpha", "original");
+    await recordInstalledHashes([alpha]);
+    await fs.writeFile(path.join(root, "alpha", "SKILL.md"), "edited");
+
+    const { heldBack, allowed } = await holdBackModifiedSkills(
+      [{ ...alpha, ref: "v2" }, beta],
+      [alpha]
+    );
+
+    expect(allowed).toEqual([beta]);
+    expect(heldBack).toHaveLength(1);
+    expect(heldBack[0]?.reason).toContain("Rerun with --force");
+  });
+});
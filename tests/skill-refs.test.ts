@@ -0,0 +1,26 @@
+import { Octokit } from "@octokit/rest";
+import { describe, expect, it, vi } from "vitest";
+import { resolveSkillRefs } from "@/service/skillRefs";
+
+const SHA = "0123456789abcdef0123456789abcdef01234567";
+
+describe("skill refs", () => {
+  it("resolves upstream refs and passes embedded skills through", async () => {
+    const getCommit = vi.fn(async () => ({ data: { sha: SHA } }));
+    const octokit = { repos: { getCommit } } as unknown as Octokit;
+    const local = {
+      name: "my-skill",
+      source: "local",
+      embedded: { hash: "sha256:abc" },
+    };
+
+    const resolved = await resolveSkillRefs(
+      [{ name: "alpha", source: "org/repo", ref: "main" }, local],
+      octokit
+    );
+
+    expect(resolved).toEqual([{ name: "alpha", source: "org/repo", ref: SHA }, local]);
+    expect(getCommit).toHaveBeenCalledTimes(1);
+    expect(getCommit).toHaveBeenCalledWith({ owner: "org", repo: "repo", ref: "main" });
+  });
+});
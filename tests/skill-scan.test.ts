@@ -0,0 +1,85 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const { mockConfigStore } = vi.hoisted(() => ({
+  mockConfigStore: {
+    getSkillRoots: vi.fn(),
+  },
+}));
+
+vi.mock("@/service/config", () => ({
+  configStore: mockConfigStore,
+}));
+
+import {
+  getSkillRoots,
+  parseSkillFrontmatter,
+  SKILL_ROOTS_ENV_VAR,
+  scanSkillRoots,
+} from "@/service/skillScan";
+
+async function writeSkill(root: string, folder: string, content: string) {
+  await fs.mkdir(path.join(root, folder), { recursive: true });
+  await fs.writeFile(path.join(root, folder, "SKILL.md"), content);
+}
+
+describe("skill scan", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    vi.resetAllMocks();
+    delete process.env[SKILL_ROOTS_ENV_VAR];
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "skillhub-skill-scan-"));
+  });
+
+  afterEach(async () => {
+    delete process.env[SKILL_ROOTS_ENV_VAR];
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("reads name and description from SKILL.md frontmatter", () => {
+    expect(
+      parseSkillFrontmatter(
+        ["---", "name: pdf-tools", 'description: "Work with PDFs"', "---", "# PDF"].join("\n")
+      )
+    ).toEqual({ name: "pdf-tools", description: "Work with PDFs" });
+    expect(parseSkillFrontmatter("# No frontmatter")).toEqual({});
+  });
+
+  it("scans existing roots and keeps the first copy of each skill", async () => {
+    const agents = path.join(directory, "agents");
+    const claude = path.join(directory, "claude");
+    await writeSkill(agents, "pdf", "---\nname: pdf-tools\ndescription: PDFs\n---\n");
+    await writeSkill(agents, "plain", "# Plain skill\n");
+    await writeSkill(claude, "pdf-copy", "---\nname: pdf-tools\n---\n");
+    await fs.mkdir(path.join(claude, "not-a-skill"));
+
+    const scan = await scanSkillRoots([agents, path.join(directory, "missing"), claude]);
+
+    expect(scan.roots).toEqual([agents, claude]);
+    expect(scan.skills).toEqual([
+      { name: "pdf-tools", description: "PDFs", path: path.join(agents, "pdf") },
+      { name: "plain", description: null, path: path.join(agents, "plain") },
+    ]);
+  });
+
+  it("resolves roots from the environment, then config, then defaults", async () => {
+    mockConfigStore.getSkillRoots.mockResolvedValue(["custom/skills"]);
+    expect(await getSkillRoots()).toEqual({
+      roots: [path.join(os.homedir(), "custom/skills")],
+      source: "config",
+    });
+
+    process.env[SKILL_ROOTS_ENV_VAR] = [directory, "~/other"].join(path.delimiter);
+    expect(await getSkillRoots()).toEqual({
+      roots: [directory, path.join(os.homedir(), "other")],
+      source: "env",
+    });
+
+    delete process.env[SKILL_ROOTS_ENV_VAR];
+    mockConfigStore.getSkillRoots.mockResolvedValue(undefined);
+    expect((await getSkillRoots()).source).toBe("default");
+  });
+});
@@ -1,8 +1,39 @@
+import path from "node:path";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
-const { mockExecFile, mockReadFile } = vi.hoisted(() => ({
-  mockExecFile: vi.fn(),
-  mockReadFile: vi.fn(),
+const { mockExecFile, mockReadFile, mockReaddir, mockConfigStore } = vi.hoisted(() => {
+  const mockExecFile = vi.fn();
+  // Resolve `{ stdout, stderr }` like the real promisified execFile.
+  Object.defineProperty(mockExecFile, Symbol.for("nodejs.util.promisify.custom"), {
+    value: (command: string, args: string[], options: unknown) =>
+      new Promise((resolve, reject) => {
+        mockExecFile(
+          command,
+          args,
+          options,
+          (error: Error | null, stdout: string, stderr: string) =>
+            error ? reject(error) : resolve({ stdout, stderr })
+        );
+      }),
+  });
+  return {
+    mockExecFile,
+    mockReadFile: vi.fn(),
+    mockReaddir: vi.fn(),
+    mockConfigStore: {
+      getInstalledRefs: vi.fn(),
+      setInstalledRefs: vi.fn(),
+      getInstalledCommits: vi.fn(),
+      setInstalledCommits: vi.fn(),
+      getSkillRoots: vi.fn(),
+      getInstalledHashes: vi.fn(),
+      setInstalledHashes: vi.fn(),
+    },
+  };
+});
+
+vi.mock("@/service/config", () => ({
+  configStore: mockConfigStore,
 }));
 
 vi.mock("node:child_process", () => ({
@@ -12,16 +43,49 @@ vi.mock("node:child_process", () => ({
 vi.mock("node:fs/promises", () => ({
   default: {
     readFile: mockReadFile,
+    readdir: mockReaddir,
   },
   readFile: mockReadFile,
+  readdir: mockReaddir,
 }));
 
-import { getLocalSkills, isValidSource, removeSkills } from "@/service/skillsService";
+import {
+  getLocalInventory,
+  getLocalSkills,
+  installSkills,
+  isValidSource,
+  removeSkills,
+  scanLocalSkills,
+  setInventorySourceOverride,
+} from "@/service/skillsService";
+
+function mockSkillsCli(respond: (args: string[]) => string | Error) {
+  mockExecFile.mockImplementation(
+    (
+      _command: string,
+      args: string[],
+      _options: unknown,
+      callback: (error: Error | null, stdout: string, stderr: string) => void
+    ) => {
+      const output = respond(args.slice(1));
+      if (output instanceof Error) {
+        callback(output, "", "");
+        return;
+      }
+      callback(null, output, "");
+    }
+  );
+}
 
 describe("skills service", () => {
   beforeEach(() => {
     vi.resetAllMocks();
     mockReadFile.mockRejectedValue(new Error("not found"));
+    mockReaddir.mockRejectedValue(new Error("not found"));
+    mockConfigStore.getInstalledRefs.mockResolvedValue({});
+    mockConfigStore.getInstalledCommits.mockResolvedValue({});
+    mockConfigStore.getInstalledHashes.mockResolvedValue({});
+    setInventorySourceOverride(undefined);
   });
 
   it("validates source format owner/repo", () => {
@@ -87,6 +151,7 @@ describe("skills service", () => {
   });
 
   it("hydrates skill sources from .skill-lock.json metadata", async () => {
+    setInventorySourceOverride("text");
     mockExecFile.mockImplementation(
       (
         _command: string,
@@ -139,4 +204,247 @@ describe("skills service", () => {
       },
     ]);
   });
+
+  it("installs pinned skills from their ref and records it", async () => {
+    mockConfigStore.getInstalledRefs.mockResolvedValue({ "org/repo:beta": "v1" });
+    mockExecFile.mockImplementation(
+      (
+        _command: string,
+        _args: string[],
+        _options: unknown,
+        callback: (error: Error | null, stdout: string, stderr: string) => void
+      ) => {
+        callback(null, "", "");
+      }
+    );
+
+    await installSkills([
+      { name: "alpha", source: "org/repo", ref: "v2.0.0" },
+      { name: "beta", source: "org/repo" },
+    ]);
+
+    expect(mockExecFile.mock.calls[0]?.[1]).toEqual([
+      "skills",
+      "add",
+      "https://github.com/org/repo/tree/v2.0.0",
+      "--skill",
+      "alpha",
+      "--global",
+      "--yes",
+    ]);
+    expect(mockExecFile.mock.calls[1]?.[1]).toContain("org/repo");
+    expect(mockConfigStore.setInstalledRefs).toHaveBeenCalledWith({
+      "org/repo:alpha": "v2.0.0",
+    });
+  });
+
+  it("does not remove a same-named skill installed from another source", async () => {
+    mockExecFile.mockImplementation(
+      (
+        _command: string,
+        _args: string[],
+        _options: unknown,
+        callback: (error: Error | null, stdout: string, stderr: string) => void
+      ) => {
+        callback(null, "", "");
+      }
+    );
+    mockReadFile.mockImplementation(async (lockPath: string) => {
+      if (lockPath.replace(/\\/g, "/").endsWith("/.agents/.skill-lock.json")) {
+        return JSON.stringify({ skills: { testing: { source: "org/b" } } });
+      }
+      throw new Error("not found");
+    });
+
+    const result = await removeSkills([{ name: "testing", source: "org/a" }]);
+
+    expect(mockExecFile).not.toHaveBeenCalled();
+    expect(result.succeeded).toEqual([]);
+    expect(result.failed).toEqual([
+      {
+        skill: { name: "testing", source: "org/a" },
+        reason: "Not removed: the installed testing comes from org/b, not org/a.",
+      },
+    ]);
+  });
+
+  it("prefers structured skills list --json output", async () => {
+    mockSkillsCli((args) =>
+      args.includes("--json")
+        ? JSON.stringify([{ name: "alpha", source: "org/repo" }, { name: "beta" }])
+        : new Error("unexpected command")
+    );
+
+    const inventory = await getLocalInventory();
+
+    expect(inventory.source).toBe("json");
+    expect(inventory.skills).toEqual([{ name: "alpha", source: "org/repo" }]);
+    expect(inventory.unknownSources).toEqual(["beta"]);
+  });
+
+  it("falls back to the lock file and reports skipped strategies", async () => {
+    mockSkillsCli(() => "Global Skills\n\nalpha ~/.agents/skills/alpha");
+    mockReadFile.mockImplementation(async (lockPath: string) => {
+      if (lockPath.replace(/\\/g, "/").endsWith("/.agents/.skill-lock.json")) {
+        return JSON.stringify({ skills: { alpha: { source: "org/repo" } } });
+      }
+      throw new Error("not found");
+    });
+
+    const inventory = await getLocalInventory();
+
+    expect(inventory.source).toBe("lock");
+    expect(inventory.skills).toEqual([{ name: "alpha", source: "org/repo" }]);
+    expect(inventory.attempts.map((attempt) => [attempt.source, attempt.status])).toEqual([
+      ["json", "unavailable"],
+      ["lock", "used"],
+    ]);
+  });
+
+  it("does not use a project lock file as the global inventory", async () => {
+    setInventorySourceOverride("lock");
+    mockReadFile.mockImplementation(async (lockPath: string) => {
+      if (lockPath === path.resolve(process.cwd(), "skills-lock.json")) {
+        return JSON.stringify({ skills: { project: { source: "org/project" } } });
+      }
+      throw new Error("not found");
+    });
+
+    await expect(getLocalInventory()).rejects.toMatchObject({
+      code: "INVENTORY_UNAVAILABLE",
+    });
+    expect(mockReadFile).not.toHaveBeenCalledWith(
+      path.resolve(process.cwd(), "skills-lock.json"),
+      "utf-8"
+    );
+  });
+
+  it("does not scan for locally authored skills with a forced text strategy", async () => {
+    setInventorySourceOverride("text");
+    mockSkillsCli(() => "Global Skills\n\nalpha ~/.agents/skills/alpha");
+
+    const inventory = await getLocalInventory();
+
+    expect(inventory.skills).toEqual([]);
+    expect(inventory.unknownSources).toEqual(["alpha"]);
+    expect(mockReaddir).not.toHaveBeenCalled();
+  });
+
+  it("reads the global lock first and takes only missing names from a project lock", async () => {
+    process.env.SKILLHUB_SKILL_ROOTS = "/skills";
+    setInventorySourceOverride("scan");
+    mockReaddir.mockImplementation(
+      async (_dir: string, options?: { withFileTypes?: boolean }) =>
+        options?.withFileTypes ? [] : ["alpha", "beta"]
+    );
+    mockReadFile.mockImplementation(async (filePath: string) => {
+      const normalized = filePath.replace(/\\/g, "/");
+      if (normalized.endsWith("/alpha/SKILL.md") || normalized.endsWith("/beta/SKILL.md")) {
+        return "---\ndescription: A skill\n---\n";
+      }
+      if (normalized.endsWith("/.agents/.skill-lock.json")) {
+        return JSON.stringify({ skills: { alpha: { source: "org/repo" } } });
+      }
+      if (filePath === path.resolve(process.cwd(), "skills-lock.json")) {
+        return JSON.stringify({
+          skills: { alpha: { source: "org/other" }, beta: { source: "org/project" } },
+        });
+      }
+      throw new Error("not found");
+    });
+
+    try {
+      const inventory = await getLocalInventory();
+
+      expect(inventory.skills).toEqual([
+        { name: "beta", source: "org/project" },
+        { name: "alpha", source: "org/repo" },
+      ]);
+      expect((await scanLocalSkills()).unsourced).toEqual([]);
+    } finally {
+      delete process.env.SKILLHUB_SKILL_ROOTS;
+    }
+  });
+
+  it("uses only the strategy forced by the override", async () => {
+    setInventorySourceOverride("text");
+    mockSkillsCli((args) =>
+      args.includes("--json") ? new Error("unexpected command") : "Global Skills\n\n"
+    );
+
+    await expect(getLocalInventory()).rejects.toMatchObject({
+      code: "INVENTORY_UNAVAILABLE",
+      message: expect.stringContaining("- text: no skills recognized"),
+    });
+    expect(mockExecFile).toHaveBeenCalledTimes(1);
+    expect(() => setInventorySourceOverride("yaml")).toThrow(
+      'Invalid inventory source "yaml"'
+    );
+  });
+
+  it("scans skill folders and embeds skills without a recorded source", async () => {
+    process.env.SKILLHUB_SKILL_ROOTS = "/skills";
+    setInventorySourceOverride("scan");
+    const draft = "---\nname: my-draft\n---\n";
+    mockReaddir.mockImplementation(
+      async (_dir: string, options?: { withFileTypes?: boolean }) =>
+        options?.withFileTypes
+          ? [
+              {
+                name: "SKILL.md",
+                isSymbolicLink: () => false,
+                isDirectory: () => false,
+                isFile: () => true,
+              },
+            ]
+          : ["alpha", "drafts"]
+    );
+    mockReadFile.mockImplementation(async (filePath: string, encoding?: string) => {
+      const normalized = filePath.replace(/\\/g, "/");
+      if (normalized.endsWith("/alpha/SKILL.md")) {
+        return "---\nname: alpha\ndescription: Alpha skill\n---\n";
+      }
+      if (normalized.endsWith("/drafts/SKILL.md")) {
+        return encoding ? draft : Buffer.from(draft);
+      }
+      if (normalized.endsWith("/.agents/.skill-lock.json")) {
+        return JSON.stringify({ skills: { alpha: { source: "org/repo" } } });
+      }
+      throw new Error("not found");
+    });
+
+    try {
+      const inventory = await getLocalInventory();
+      const scan = await scanLocalSkills();
+
+      expect(mockExecFile).not.toHaveBeenCalled();
+      expect(inventory.source).toBe("scan");
+      expect(inventory.skills).toEqual([
+        {
+          name: "my-draft",
+          source: "local",
+          embedded: {
+            hash: expect.stringMatching(/^sha256:[0-9a-f]{64}$/),
+            files: [{ path: "SKILL.md", encoding: "utf8", content: draft }],
+          },
+        },
+        { name: "alpha", source: "org/repo" },
+      ]);
+      expect(scan.unsourced).toEqual([
+        { name: "my-draft", description: null, path: path.resolve("/skills", "drafts") },
+      ]);
+
+      // Embedded files are read once per run.
+      const draftReads = () =>
+        mockReadFile.mock.calls.filter(
+          ([filePath, encoding]) =>
+            String(filePath).replace(/\\/g, "/").endsWith("/drafts/SKILL.md") && !encoding
+        ).length;
+      const readsBefore = draftReads();
+      await getLocalInventory();
+      expect(draftReads()).toBe(readsBefore);
+    } finally {
+      delete process.env.SKILLHUB_SKILL_ROOTS;
+    }
+  });
 });
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  mockConfigStore,
+  mockResolveToken,
+  mockIsStoredTokenEncrypted,
+  mockDiagnoseToken,
+  mockGetLocalInventory,
+  mockScanLocalSkills,
+  mockEmitOutput,
+} = vi.hoisted(() => ({
+  mockConfigStore: {
+    getProfileName: vi.fn(),
+    getGistId: vi.fn(),
+    getLastSyncAt: vi.fn(),
+    getAuthFlow: vi.fn(),
+  },
+  mockResolveToken: vi.fn(),
+  mockIsStoredTokenEncrypted: vi.fn(),
+  mockDiagnoseToken: vi.fn(),
+  mockGetLocalInventory: vi.fn(),
+  mockScanLocalSkills: vi.fn(),
+  mockEmitOutput: vi.fn(),
+}));
+
+vi.mock("@/service/config", () => ({
+  configStore: mockConfigStore,
+}));
+
+vi.mock("@/service/githubHost", () => ({
+  resolveGitHubBaseUrl: vi.fn(async () => "https://api.github.com"),
+  getGitHubHost: vi.fn(() => "github.com"),
+}));
+
+vi.mock("@/service/token", () => ({
+  resolveToken: mockResolveToken,
+  isStoredTokenEncrypted: mockIsStoredTokenEncrypted,
+}));
+
+vi.mock("@/service/tokenDiagnostics", () => ({
+  diagnoseToken: mockDiagnoseToken,
+}));
+
+vi.mock("@/service/skillsService", () => ({
+  getLocalInventory: mockGetLocalInventory,
+  scanLocalSkills: mockScanLocalSkills,
+}));
+
+vi.mock("@/utils/output", () => ({
+  emitOutput: mockEmitOutput,
+}));
+
+import { runStatus } from "@/commands/status";
+
+describe("status command", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockConfigStore.getProfileName.mockResolvedValue("default");
+    mockConfigStore.getAuthFlow.mockResolvedValue(undefined);
+    mockGetLocalInventory.mockResolvedValue({
+      source: "lock",
+      skills: [],
+      attempts: [],
+      unknownSources: [],
+    });
+    mockScanLocalSkills.mockResolvedValue({ roots: [], skills: [], unsourced: [] });
+  });
+
+  it("reports a token that cannot be unlocked instead of failing", async () => {
+    mockIsStoredTokenEncrypted.mockResolvedValue(true);
+    mockResolveToken.mockRejectedValue(new Error("No passphrase available."));
+
+    const summary = await runStatus({ json: true });
+
+    expect(summary).toMatchObject({
+      loggedIn: null,
+      tokenSource: "config",
+      tokenEncrypted: true,
+      remoteAccessible: null,
+      errors: ["Failed to unlock the stored GitHub token: No passphrase available."],
+    });
+    expect(mockDiagnoseToken).not.toHaveBeenCalled();
+  });
+});
@@ -1,3 +1,6 @@
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { resolve } from "node:path";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
 const {
@@ -5,33 +8,43 @@ const {
   mockConfigStore,
   mockCreateOctokit,
   mockCreateSkillhubGist,
-  mockFindSkillhubGist,
+  mockListSkillhubGists,
   mockGetSkillhubPayload,
+  mockGetSkillhubSnapshot,
   mockUpdateSkillhubGist,
   mockGetLocalSkills,
   mockInstallSkills,
   mockRemoveSkills,
   mockIsValidSource,
   mockEmitOutput,
+  mockHoldBackModifiedSkills,
+  mockResolveSkillRefs,
 } = vi.hoisted(() => ({
   mockPrompt: vi.fn(),
   mockConfigStore: {
     getToken: vi.fn(),
+    getRemote: vi.fn(),
+    getGitHubBaseUrl: vi.fn(),
     getGistId: vi.fn(),
     setGistId: vi.fn(),
     getLastSyncAt: vi.fn(),
     setLastSyncAt: vi.fn(),
+    getBaseSkills: vi.fn(),
+    setBaseSkills: vi.fn(),
   },
   mockCreateOctokit: vi.fn(),
   mockCreateSkillhubGist: vi.fn(),
-  mockFindSkillhubGist: vi.fn(),
+  mockListSkillhubGists: vi.fn(),
   mockGetSkillhubPayload: vi.fn(),
+  mockGetSkillhubSnapshot: vi.fn(),
   mockUpdateSkillhubGist: vi.fn(),
   mockGetLocalSkills: vi.fn(),
   mockInstallSkills: vi.fn(),
   mockRemoveSkills: vi.fn(),
   mockIsValidSource: vi.fn(),
   mockEmitOutput: vi.fn(),
+  mockHoldBackModifiedSkills: vi.fn(),
+  mockResolveSkillRefs: vi.fn(),
 }));
 
 vi.mock("inquirer", () => ({
@@ -47,8 +60,8 @@ vi.mock("@/service/config", () => ({
 vi.mock("@/service/gistService", () => ({
   createOctokit: mockCreateOctokit,
   createSkillhubGist: mockCreateSkillhubGist,
-  findSkillhubGist: mockFindSkillhubGist,
-  getSkillhubPayload: mockGetSkillhubPayload,
+  listSkillhubGists: mockListSkillhubGists,
+  getSkillhubSnapshot: mockGetSkillhubSnapshot,
   updateSkillhubGist: mockUpdateSkillhubGist,
 }));
 
@@ -59,10 +72,20 @@ vi.mock("@/service/skillsService", () => ({
   isValidSource: mockIsValidSource,
 }));
 
+vi.mock("@/service/skillChecksums", () => ({
+  holdBackModifiedSkills: mockHoldBackModifiedSkills,
+}));
+
+vi.mock("@/service/skillRefs", () => ({
+  resolveSkillRefs: mockResolveSkillRefs,
+}));
+
 vi.mock("@/utils/output", () => ({
   emitOutput: mockEmitOutput,
 }));
 
+import { buildMergePlan } from "@/core/syncCore";
+import { RemoteConflictError } from "@/utils/errors";
 import {
   runSyncMerge,
   runSyncPull,
@@ -72,16 +95,25 @@ import {
 describe("sync commands", () => {
   beforeEach(() => {
     vi.resetAllMocks();
+    mockHoldBackModifiedSkills.mockImplementation(async (candidates: unknown[]) => ({
+      heldBack: [],
+      allowed: candidates,
+    }));
     mockCreateOctokit.mockReturnValue({});
     mockConfigStore.getToken.mockResolvedValue("token");
     mockConfigStore.getGistId.mockResolvedValue("gist-id");
     mockConfigStore.getLastSyncAt.mockResolvedValue(undefined);
+    mockConfigStore.getBaseSkills.mockResolvedValue(undefined);
     mockGetLocalSkills.mockResolvedValue([{ name: "alpha", source: "org/repo" }]);
     mockGetSkillhubPayload.mockResolvedValue({
       skills: [{ name: "alpha", source: "org/repo" }],
       updatedAt: "2026-01-01T00:00:00.000Z",
     });
-    mockFindSkillhubGist.mockResolvedValue(null);
+    mockGetSkillhubSnapshot.mockImplementation(async (octokit, gistId) => ({
+      payload: await mockGetSkillhubPayload(octokit, gistId),
+      revision: "rev-1",
+    }));
+    mockListSkillhubGists.mockResolvedValue([]);
     mockInstallSkills.mockResolvedValue({ succeeded: [], failed: [] });
     mockRemoveSkills.mockResolvedValue({ succeeded: [], failed: [] });
     mockIsValidSource.mockReturnValue(true);
@@ -101,14 +133,14 @@ describe("sync commands", () => {
 
   it("fails pull when remote gist does not exist", async () => {
     mockConfigStore.getGistId.mockResolvedValue(undefined);
-    mockFindSkillhubGist.mockResolvedValue(null);
+    mockListSkillhubGists.mockResolvedValue([]);
 
     await expect(runSyncPull()).rejects.toThrow("Remote SkillHub Gist not found");
   });
 
   it("creates a gist on push when remote gist is missing", async () => {
     mockConfigStore.getGistId.mockResolvedValue(undefined);
-    mockFindSkillhubGist.mockResolvedValue(null);
+    mockListSkillhubGists.mockResolvedValue([]);
     mockCreateSkillhubGist.mockResolvedValue({ id: "new-gist-id" });
 
     await runSyncPush();
@@ -118,6 +150,34 @@ describe("sync commands", () => {
     expect(mockConfigStore.setLastSyncAt).toHaveBeenCalledTimes(1);
   });
 
+  it("uploads resolved refs on push without touching installed skills", async () => {
+    const sha = "0123456789abcdef0123456789abcdef01234567";
+    mockResolveSkillRefs.mockImplementation(async (skills: object[]) =>
+      skills.map((skill) => ({ ...skill, ref: sha }))
+    );
+
+    await runSyncPush({ resolveRefs: true });
+
+    expect(mockUpdateSkillhubGist).toHaveBeenCalledWith(
+      {},
+      "gist-id",
+      expect.objectContaining({ skills: [{ name: "alpha", source: "org/repo", ref: sha }] }),
+      { expectedRevision: "rev-1" }
+    );
+    expect(mockInstallSkills).not.toHaveBeenCalled();
+
+    // The next merge keeps the pinned SHAs and installs them instead of uploading them away.
+    const baseSkills = mockConfigStore.setBaseSkills.mock.calls[0]?.[0];
+    const next = buildMergePlan({
+      localPayload: { skills: [{ name: "alpha", source: "org/repo" }], updatedAt: "" },
+      remotePayload: mockUpdateSkillhubGist.mock.calls[0]?.[2],
+      baseSkills,
+      nowIso: "2026-01-02T00:00:00.000Z",
+    });
+    expect(next.uploadPayload).toBeNull();
+    expect(next.installCandidates).toEqual([{ name: "alpha", source: "org/repo", ref: sha }]);
+  });
+
   it("runs install/remove on pull and skips prompt with --yes", async () => {
     mockGetLocalSkills.mockResolvedValue([{ name: "alpha", source: "org/repo" }]);
     mockGetSkillhubPayload.mockResolvedValue({
@@ -147,6 +207,57 @@ describe("sync commands", () => {
     expect(mockConfigStore.setLastSyncAt).toHaveBeenCalledTimes(1);
   });
 
+  it("does not reinstall over a locally modified skill unless forced", async () => {
+    const pinned = { name: "alpha", source: "org/repo", ref: "v2" };
+    mockGetSkillhubPayload.mockResolvedValue({
+      skills: [pinned],
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+    mockHoldBackModifiedSkills.mockImplementation(async (candidates) => ({
+      heldBack: candidates.map((skill: object) => ({ skill, reason: "Locally modified" })),
+      allowed: [],
+    }));
+    mockInstallSkills.mockResolvedValue({ succeeded: [], failed: [] });
+    mockRemoveSkills.mockResolvedValue({ succeeded: [], failed: [] });
+
+    const summary = await runSyncPull({ yes: true, json: true });
+
+    expect(mockInstallSkills).toHaveBeenCalledWith([], { verbose: false });
+    expect(summary.failed).toEqual([{ skill: pinned, reason: "Locally modified" }]);
+    expect(mockConfigStore.setLastSyncAt).not.toHaveBeenCalled();
+
+    mockHoldBackModifiedSkills.mockClear();
+    await runSyncPull({ yes: true, json: true, force: true });
+
+    expect(mockHoldBackModifiedSkills).not.toHaveBeenCalled();
+    expect(mockInstallSkills).toHaveBeenLastCalledWith([pinned], { verbose: false });
+    process.exitCode = undefined;
+  });
+
+  it("holds back a modified skill when merge takes a remote ref change", async () => {
+    const updated = { name: "alpha", source: "org/repo", ref: "v2" };
+    mockConfigStore.getBaseSkills.mockResolvedValue([{ name: "alpha", source: "org/repo" }]);
+    mockGetSkillhubPayload.mockResolvedValue({
+      skills: [updated],
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+    mockHoldBackModifiedSkills.mockImplementation(async (candidates) => ({
+      heldBack: candidates.map((skill: object) => ({ skill, reason: "Locally modified" })),
+      allowed: [],
+    }));
+
+    const summary = await runSyncMerge({ json: true });
+
+    expect(mockHoldBackModifiedSkills).toHaveBeenCalledWith(
+      [updated],
+      [{ name: "alpha", source: "org/repo" }]
+    );
+    expect(mockInstallSkills).toHaveBeenCalledWith([], { verbose: false });
+    expect(summary.failed).toEqual([{ skill: updated, reason: "Locally modified" }]);
+    expect(mockConfigStore.setBaseSkills).not.toHaveBeenCalled();
+    process.exitCode = undefined;
+  });
+
   it("cancels pull when deletion is rejected", async () => {
     mockGetLocalSkills.mockResolvedValue([{ name: "alpha", source: "org/repo" }]);
     mockGetSkillhubPayload.mockResolvedValue({
@@ -159,4 +270,204 @@ describe("sync commands", () => {
     expect(mockInstallSkills).not.toHaveBeenCalled();
     expect(mockRemoveSkills).not.toHaveBeenCalled();
   });
+
+  it("propagates local deletions on merge and records the new base", async () => {
+    mockConfigStore.getBaseSkills.mockResolvedValue([
+      { name: "alpha", source: "org/repo" },
+      { name: "beta", source: "org/repo" },
+    ]);
+    mockGetSkillhubPayload.mockResolvedValue({
+      skills: [
+        { name: "alpha", source: "org/repo" },
+        { name: "beta", source: "org/repo" },
+      ],
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+
+    await runSyncMerge();
+
+    expect(mockInstallSkills).toHaveBeenCalledWith([], { verbose: true });
+    expect(mockUpdateSkillhubGist).toHaveBeenCalledWith(
+      {},
+      "gist-id",
+      expect.objectContaining({
+        skills: [{ name: "alpha", source: "org/repo" }],
+      }),
+      { expectedRevision: "rev-1" }
+    );
+    expect(mockConfigStore.setBaseSkills).toHaveBeenCalledWith([
+      { name: "alpha", source: "org/repo" },
+    ]);
+  });
+
+  it("re-plans against the latest remote when the gist changed before upload", async () => {
+    mockGetLocalSkills.mockResolvedValue([{ name: "alpha", source: "org/repo" }]);
+    mockGetSkillhubPayload
+      .mockResolvedValueOnce({
+        skills: [],
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      })
+      .mockResolvedValueOnce({
+        skills: [{ name: "beta", source: "org/repo" }],
+        updatedAt: "2026-01-02T00:00:00.000Z",
+      });
+    mockUpdateSkillhubGist
+      .mockRejectedValueOnce(new RemoteConflictError("changed"))
+      .mockResolvedValueOnce({ revision: "rev-3" });
+
+    await runSyncMerge();
+
+    expect(mockUpdateSkillhubGist).toHaveBeenCalledTimes(2);
+    expect(mockUpdateSkillhubGist).toHaveBeenLastCalledWith(
+      {},
+      "gist-id",
+      expect.objectContaining({
+        skills: [
+          { name: "alpha", source: "org/repo" },
+          { name: "beta", source: "org/repo" },
+        ],
+      }),
+      { expectedRevision: "rev-1" }
+    );
+    expect(mockInstallSkills).toHaveBeenCalledWith(
+      [{ name: "beta", source: "org/repo" }],
+      { verbose: true }
+    );
+  });
+
+  it("fails with a conflict error when the gist keeps changing", async () => {
+    mockGetLocalSkills.mockResolvedValue([{ name: "alpha", source: "org/repo" }]);
+    mockGetSkillhubPayload.mockResolvedValue({
+      skills: [{ name: "beta", source: "org/repo" }],
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+    mockUpdateSkillhubGist.mockRejectedValue(new RemoteConflictError("changed"));
+
+    await expect(runSyncPush()).rejects.toMatchObject({ code: "REMOTE_CONFLICT" });
+    expect(mockUpdateSkillhubGist).toHaveBeenCalledTimes(3);
+    expect(mockConfigStore.setLastSyncAt).not.toHaveBeenCalled();
+  });
+
+  it("applies only the operations selected in interactive pull", async () => {
+    mockGetLocalSkills.mockResolvedValue([{ name: "alpha", source: "org/repo" }]);
+    mockGetSkillhubPayload.mockResolvedValue({
+      skills: [
+        { name: "beta", source: "org/repo" },
+        { name: "gamma", source: "org/repo" },
+      ],
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+    mockPrompt.mockResolvedValue({ selected: ["install:org/repo:beta"] });
+
+    const summary = await runSyncPull({ interactive: true });
+
+    expect(mockInstallSkills).toHaveBeenCalledWith(
+      [{ name: "beta", source: "org/repo" }],
+      { verbose: true }
+    );
+    expect(mockRemoveSkills).toHaveBeenCalledWith([], { verbose: true });
+    expect(summary.skipped).toEqual([
+      { type: "install", skill: { name: "gamma", source: "org/repo" } },
+      { type: "remove", skill: { name: "alpha", source: "org/repo" } },
+    ]);
+    expect(mockConfigStore.setLastSyncAt).not.toHaveBeenCalled();
+  });
+
+  it("skips the upload when it is deselected in interactive merge", async () => {
+    mockGetSkillhubPayload.mockResolvedValue({
+      skills: [],
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+    mockPrompt.mockResolvedValue({ selected: [] });
+
+    const summary = await runSyncMerge({ interactive: true });
+
+    expect(mockUpdateSkillhubGist).not.toHaveBeenCalled();
+    expect(summary.skipped).toEqual([{ type: "upload", skill: null }]);
+    expect(summary.lastSyncAtUpdated).toBe(false);
+  });
+
+  it("reports per-skill install, remove and upload details on dry-run", async () => {
+    mockConfigStore.getBaseSkills.mockResolvedValue([
+      { name: "alpha", source: "org/repo" },
+      { name: "gamma", source: "org/repo" },
+    ]);
+    mockGetLocalSkills.mockResolvedValue([
+      { name: "alpha", source: "org/repo" },
+      { name: "delta", source: "other/repo" },
+    ]);
+    mockGetSkillhubPayload.mockResolvedValue({
+      skills: [
+        { name: "beta", source: "org/repo" },
+        { name: "gamma", source: "org/repo" },
+      ],
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+
+    const summary = await runSyncMerge({ dryRun: true });
+
+    expect(summary.details).toEqual({
+      install: [{ name: "beta", source: "org/repo" }],
+      remove: [{ name: "alpha", source: "org/repo" }],
+      uploadAdded: [{ name: "delta", source: "other/repo" }],
+      uploadRemoved: [{ name: "gamma", source: "org/repo" }],
+      uploadUpdated: [],
+      collisions: [],
+    });
+  });
+
+  it("holds back installs that would replace a same-named skill from another source", async () => {
+    mockConfigStore.getBaseSkills.mockResolvedValue([{ name: "testing", source: "org/a" }]);
+    mockGetLocalSkills.mockResolvedValue([{ name: "testing", source: "org/a" }]);
+    mockGetSkillhubPayload.mockResolvedValue({
+      skills: [
+        { name: "testing", source: "org/a" },
+        { name: "testing", source: "org/b" },
+      ],
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+
+    const summary = await runSyncMerge({ json: true });
+    process.exitCode = undefined;
+
+    expect(mockInstallSkills).toHaveBeenCalledWith([], { verbose: false });
+    expect(summary.failed).toEqual([
+      {
+        skill: { name: "testing", source: "org/b" },
+        reason: expect.stringContaining("would replace org/a:testing"),
+      },
+    ]);
+    expect(summary.details.collisions).toEqual([
+      { name: "testing", sources: ["org/a", "org/b"] },
+    ]);
+  });
+
+  it("writes the computed plan to --plan-out without applying it", async () => {
+    const sandboxDir = mkdtempSync(resolve(tmpdir(), "skillhub-plan-test-"));
+    const planPath = resolve(sandboxDir, "plan.json");
+    mockGetSkillhubPayload.mockResolvedValue({
+      skills: [{ name: "beta", source: "org/repo" }],
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+
+    try {
+      const summary = await runSyncMerge({ planOut: planPath });
+      const saved = JSON.parse(readFileSync(planPath, "utf-8"));
+
+      expect(summary.dryRun).toBe(true);
+      expect(summary.planFile).toBe(planPath);
+      expect(saved).toMatchObject({
+        version: 1,
+        mode: "merge",
+        remote: "gist",
+        remoteId: "gist-id",
+        remoteRevision: "rev-1",
+        installCandidates: [{ name: "beta", source: "org/repo" }],
+      });
+      expect(mockUpdateSkillhubGist).not.toHaveBeenCalled();
+      expect(mockInstallSkills).not.toHaveBeenCalled();
+    } finally {
+      rmSync(sandboxDir, { recursive: true, force: true });
+    }
+  });
 });
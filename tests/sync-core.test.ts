@@ -5,7 +5,11 @@ import {
   buildMergePlan,
   buildPullPlan,
   buildPushPlan,
+  buildThreeWayPlan,
+  findNameCollisions,
+  matchesSkillSelector,
   normalizeSkills,
+  withoutEmbeddedFiles,
 } from "@/core/syncCore";
 import { SkillhubPayload } from "@/service/gistService";
 
@@ -125,4 +129,228 @@ describe("sync core", () => {
     ];
     expect(areSameSkills(a, b)).toBe(true);
   });
+
+  it("classifies three-way changes against the stored base", () => {
+    const plan = buildThreeWayPlan({
+      localPayload: {
+        skills: [
+          { name: "alpha", source: "org/repo" },
+          { name: "gamma", source: "org/repo" },
+          { name: "delta", source: "org/repo" },
+        ],
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      },
+      remotePayload: {
+        skills: [
+          { name: "beta", source: "org/repo" },
+          { name: "gamma", source: "org/repo" },
+          { name: "delta", source: "org/repo" },
+        ],
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      },
+      baseSkills: [
+        { name: "alpha", source: "org/repo" },
+        { name: "beta", source: "org/repo" },
+        { name: "gamma", source: "org/repo" },
+        { name: "omega", source: "org/repo" },
+      ],
+      nowIso: "2026-01-02T00:00:00.000Z",
+    });
+
+    expect(plan.changes.localRemoved).toEqual([{ name: "beta", source: "org/repo" }]);
+    expect(plan.changes.remoteRemoved).toEqual([{ name: "alpha", source: "org/repo" }]);
+    expect(plan.changes.bothAdded).toEqual([{ name: "delta", source: "org/repo" }]);
+    expect(plan.changes.bothRemoved).toEqual([{ name: "omega", source: "org/repo" }]);
+    expect(plan.removeCandidates).toEqual([{ name: "alpha", source: "org/repo" }]);
+    expect(plan.installCandidates).toHaveLength(0);
+    expect(plan.uploadPayload).toEqual({
+      skills: [
+        { name: "delta", source: "org/repo" },
+        { name: "gamma", source: "org/repo" },
+      ],
+      updatedAt: "2026-01-02T00:00:00.000Z",
+    });
+  });
+
+  it("propagates deletions in merge plan when a base is stored", () => {
+    const plan = buildMergePlan({
+      localPayload: {
+        skills: [{ name: "alpha", source: "org/repo" }],
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      },
+      remotePayload: {
+        skills: [
+          { name: "alpha", source: "org/repo" },
+          { name: "beta", source: "org/repo" },
+        ],
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      },
+      baseSkills: [
+        { name: "alpha", source: "org/repo" },
+        { name: "beta", source: "org/repo" },
+      ],
+      nowIso: "2026-01-02T00:00:00.000Z",
+    });
+
+    expect(plan.installCandidates).toHaveLength(0);
+    expect(plan.uploadPayload?.skills).toEqual([{ name: "alpha", source: "org/repo" }]);
+  });
+
+  it("falls back to union merge without a base", () => {
+    const plan = buildMergePlan({
+      localPayload: {
+        skills: [{ name: "alpha", source: "org/repo" }],
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      },
+      remotePayload: {
+        skills: [{ name: "beta", source: "org/repo" }],
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      },
+      nowIso: "2026-01-02T00:00:00.000Z",
+    });
+
+    expect(plan.installCandidates).toEqual([{ name: "beta", source: "org/repo" }]);
+    expect(plan.removeCandidates).toHaveLength(0);
+    expect(plan.uploadPayload?.skills).toEqual([
+      { name: "alpha", source: "org/repo" },
+      { name: "beta", source: "org/repo" },
+    ]);
+  });
+
+  it("removes locally in auto plan when remote dropped a base skill", () => {
+    const plan = buildAutoPlan({
+      localPayload: {
+        skills: [
+          { name: "alpha", source: "org/repo" },
+          { name: "beta", source: "org/repo" },
+        ],
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      },
+      remotePayload: {
+        skills: [{ name: "alpha", source: "org/repo" }],
+        updatedAt: "2026-01-03T00:00:00.000Z",
+      },
+      baseSkills: [
+        { name: "alpha", source: "org/repo" },
+        { name: "beta", source: "org/repo" },
+      ],
+      lastSyncAt: "2026-01-02T00:00:00.000Z",
+      nowIso: "2026-01-04T00:00:00.000Z",
+    });
+
+    expect(plan.removeCandidates).toEqual([{ name: "beta", source: "org/repo" }]);
+    expect(plan.uploadPayload).toBeNull();
+  });
+
+  it("treats a ref change as an update rather than a no-op", () => {
+    const localPayload: SkillhubPayload = {
+      skills: [{ name: "alpha", source: "org/repo", ref: "v1" }],
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    };
+    const remotePayload: SkillhubPayload = {
+      skills: [{ name: "alpha", source: "org/repo", ref: "v2" }],
+      updatedAt: "2026-01-02T00:00:00.000Z",
+    };
+
+    expect(
+      areSameSkills(
+        [{ name: "alpha", source: "org/repo", ref: "v1" }],
+        [{ name: "alpha", source: "org/repo", ref: "v2" }]
+      )
+    ).toBe(false);
+    expect(buildPullPlan({ localPayload, remotePayload })).toMatchObject({
+      installCandidates: [{ name: "alpha", source: "org/repo", ref: "v2" }],
+      removeCandidates: [],
+    });
+    expect(
+      buildPushPlan({ localPayload, remotePayload, nowIso: "2026-01-03T00:00:00.000Z" })
+        .uploadPayload?.skills
+    ).toEqual([{ name: "alpha", source: "org/repo", ref: "v1" }]);
+  });
+
+  it("applies the side that moved the ref in a three-way plan", () => {
+    const base = [{ name: "alpha", source: "org/repo", ref: "v1" }];
+    const remoteMoved = buildThreeWayPlan({
+      localPayload: { skills: base, updatedAt: "" },
+      remotePayload: {
+        skills: [{ name: "alpha", source: "org/repo", ref: "v2" }],
+        updatedAt: "",
+      },
+      baseSkills: base,
+      nowIso: "2026-01-03T00:00:00.000Z",
+    });
+
+    expect(remoteMoved.changes.remoteRefChanged).toEqual([
+      { name: "alpha", source: "org/repo", ref: "v2" },
+    ]);
+    expect(remoteMoved.installCandidates).toEqual([
+      { name: "alpha", source: "org/repo", ref: "v2" },
+    ]);
+    expect(remoteMoved.uploadPayload).toBeNull();
+
+    const localUnpinned = buildThreeWayPlan({
+      localPayload: { skills: [{ name: "alpha", source: "org/repo" }], updatedAt: "" },
+      remotePayload: { skills: base, updatedAt: "" },
+      baseSkills: base,
+      nowIso: "2026-01-03T00:00:00.000Z",
+    });
+
+    expect(localUnpinned.changes.localRefChanged).toEqual([
+      { name: "alpha", source: "org/repo" },
+    ]);
+    expect(localUnpinned.installCandidates).toEqual([]);
+    expect(localUnpinned.uploadPayload?.skills).toEqual([{ name: "alpha", source: "org/repo" }]);
+  });
+
+  it("detects same-named skills from different sources", () => {
+    const skills = [
+      { name: "testing", source: "org/b" },
+      { name: "testing", source: "org/a" },
+      { name: "alpha", source: "org/a" },
+    ];
+
+    expect(findNameCollisions(skills)).toEqual([
+      { name: "testing", sources: ["org/a", "org/b"] },
+    ]);
+    expect(skills.filter((skill) => matchesSkillSelector(skill, "org/b:testing"))).toEqual([
+      { name: "testing", source: "org/b" },
+    ]);
+    expect(skills.filter((skill) => matchesSkillSelector(skill, "testing"))).toHaveLength(2);
+  });
+
+  it("uses the embedded hash to detect edited local skills", () => {
+    const embedded = (hash: string) => ({
+      name: "my-skill",
+      source: "local",
+      embedded: {
+        hash: `sha256:${hash.repeat(64)}`,
+        files: [{ path: "SKILL.md", encoding: "utf8" as const, content: hash }],
+      },
+    });
+    const base = withoutEmbeddedFiles([embedded("a")]);
+
+    expect(base).toEqual([
+      { name: "my-skill", source: "local", embedded: { hash: `sha256:${"a".repeat(64)}` } },
+    ]);
+
+    const remoteEdited = buildThreeWayPlan({
+      localPayload: { skills: [embedded("a")], updatedAt: "" },
+      remotePayload: { skills: [embedded("b")], updatedAt: "" },
+      baseSkills: base,
+      nowIso: "2026-01-03T00:00:00.000Z",
+    });
+
+    expect(remoteEdited.installCandidates).toEqual([embedded("b")]);
+    expect(remoteEdited.uploadPayload).toBeNull();
+
+    const localEdited = buildThreeWayPlan({
+      localPayload: { skills: [embedded("c")], updatedAt: "" },
+      remotePayload: { skills: [embedded("a")], updatedAt: "" },
+      baseSkills: base,
+      nowIso: "2026-01-03T00:00:00.000Z",
+    });
+
+    expect(localEdited.installCandidates).toEqual([]);
+    expect(localEdited.uploadPayload?.skills).toEqual([embedded("c")]);
+  });
 });
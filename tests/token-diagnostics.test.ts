@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { mockGetAuthenticated, mockListGists } = vi.hoisted(() => ({
+  mockGetAuthenticated: vi.fn(),
+  mockListGists: vi.fn(),
+}));
+
+vi.mock("@/service/gistService", () => ({
+  createOctokit: vi.fn(() => ({
+    users: { getAuthenticated: mockGetAuthenticated },
+    rest: { gists: { list: mockListGists } },
+  })),
+}));
+
+import { detectTokenType, diagnoseToken } from "@/service/tokenDiagnostics";
+
+const BASE_HEADERS = {
+  "x-ratelimit-limit": "5000",
+  "x-ratelimit-remaining": "4990",
+  "x-ratelimit-reset": "1798761600",
+};
+
+describe("token diagnostics", () => {
+  beforeEach(() => {
+    mockGetAuthenticated.mockReset();
+    mockListGists.mockReset();
+  });
+
+  it("detects token types from their prefix", () => {
+    expect(detectTokenType("ghp_abc")).toBe("classic");
+    expect(detectTokenType("github_pat_abc")).toBe("fine-grained");
+    expect(detectTokenType("gho_abc")).toBe("oauth");
+    expect(detectTokenType("something-else")).toBe("unknown");
+  });
+
+  it("reports scopes, expiry and rate limit and hints at a missing gist scope", async () => {
+    const headers = {
+      ...BASE_HEADERS,
+      "x-oauth-scopes": "repo, read:org",
+      "github-authentication-token-expiration": "2099-01-01 00:00:00 UTC",
+    };
+    mockGetAuthenticated.mockResolvedValue({ data: { login: "octocat" }, headers });
+    mockListGists.mockResolvedValue({ data: [], headers });
+
+    const diagnostics = await diagnoseToken("ghp_token", "https://api.github.com");
+
+    expect(diagnostics).toMatchObject({
+      type: "classic",
+      login: "octocat",
+      scopes: ["repo", "read:org"],
+      expiresAt: "2099-01-01T00:00:00.000Z",
+      rateLimit: { limit: 5000, remaining: 4990, resetAt: "2027-01-01T00:00:00.000Z" },
+      gistAccess: true,
+    });
+    expect(diagnostics.hints).toEqual([
+      "The token is missing the `gist` scope. Add it at https://github.com/settings/tokens or run `skillhub auth login --web`.",
+    ]);
+  });
+
+  it("hints at the Gists permission for fine-grained tokens without access", async () => {
+    mockGetAuthenticated.mockResolvedValue({
+      data: { login: "octocat" },
+      headers: BASE_HEADERS,
+    });
+    mockListGists.mockRejectedValue({ status: 403, response: { headers: BASE_HEADERS } });
+
+    const diagnostics = await diagnoseToken(
+      "github_pat_token",
+      "https://ghe.example.com/api/v3"
+    );
+
+    expect(diagnostics.scopes).toBeNull();
+    expect(diagnostics.gistAccess).toBe(false);
+    expect(diagnostics.hints).toEqual([
+      'The fine-grained token has no "Gists" account permission. Grant "Gists: Read and write" at https://ghe.example.com/settings/personal-access-tokens.',
+    ]);
+  });
+
+  it("reports revoked tokens without calling the Gist API", async () => {
+    mockGetAuthenticated.mockRejectedValue({ status: 401, response: { headers: {} } });
+
+    const diagnostics = await diagnoseToken("ghp_revoked", "https://api.github.com");
+
+    expect(mockListGists).not.toHaveBeenCalled();
+    expect(diagnostics.login).toBeNull();
+    expect(diagnostics.hints[0]).toContain("invalid, expired or revoked");
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { encryptWithPassphrase } from "@/utils/crypto";
+
+const { mockConfigStore } = vi.hoisted(() => ({
+  mockConfigStore: {
+    getToken: vi.fn(),
+    setToken: vi.fn(),
+    clearToken: vi.fn(),
+    getEncryptedToken: vi.fn(),
+    setEncryptedToken: vi.fn(),
+    clearEncryptedToken: vi.fn(),
+  },
+}));
+
+vi.mock("@/service/config", () => ({
+  configStore: mockConfigStore,
+}));
+
+const ENV_KEYS = ["SKILLHUB_TOKEN", "SKILLHUB_TOKEN_PASSPHRASE"] as const;
+
+describe("token resolution", () => {
+  const previous = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+
+  beforeEach(() => {
+    vi.resetModules();
+    for (const key of ENV_KEYS) {
+      delete process.env[key];
+    }
+    for (const mock of Object.values(mockConfigStore)) {
+      mock.mockReset();
+    }
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (previous[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = previous[key];
+      }
+    }
+  });
+
+  it("prefers SKILLHUB_TOKEN over the stored token", async () => {
+    const { resolveToken } = await import("@/service/token");
+    mockConfigStore.getToken.mockResolvedValue("stored-token");
+    process.env.SKILLHUB_TOKEN = " env-token \n";
+
+    await expect(resolveToken()).resolves.toEqual({ token: "env-token", source: "env" });
+  });
+
+  it("falls back to the stored token, then to none", async () => {
+    const { resolveToken } = await import("@/service/token");
+    mockConfigStore.getToken
+      .mockResolvedValueOnce("stored-token")
+      .mockResolvedValueOnce(undefined);
+
+    await expect(resolveToken()).resolves.toEqual({
+      token: "stored-token",
+      source: "config",
+    });
+    await expect(resolveToken()).resolves.toEqual({ token: null, source: null });
+  });
+
+  it("unlocks an encrypted stored token with the passphrase", async () => {
+    const { resolveToken } = await import("@/service/token");
+    process.env.SKILLHUB_TOKEN_PASSPHRASE = "secret";
+    mockConfigStore.getEncryptedToken.mockResolvedValue(
+      encryptWithPassphrase("ghp_encrypted", "secret")
+    );
+
+    await expect(resolveToken()).resolves.toEqual({
+      token: "ghp_encrypted",
+      source: "config",
+    });
+  });
+
+  it("encrypts the stored token and removes the plaintext copy", async () => {
+    const { encryptStoredToken } = await import("@/service/token");
+    process.env.SKILLHUB_TOKEN_PASSPHRASE = "secret";
+    mockConfigStore.getToken.mockResolvedValue("ghp_plain");
+
+    await encryptStoredToken();
+
+    const envelope = mockConfigStore.setEncryptedToken.mock.calls[0]?.[0];
+    expect(envelope).toMatchObject({ version: 1, kdf: "scrypt" });
+    expect(JSON.stringify(envelope)).not.toContain("ghp_plain");
+    expect(mockConfigStore.clearToken).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  mockConfigStore,
+  mockGetLocalSkills,
+  mockInstallSkills,
+  mockRecordInstalledCommits,
+  mockResolveCommitSha,
+  mockEmitOutput,
+  mockHoldBackModifiedSkills,
+} = vi.hoisted(() => ({
+  mockConfigStore: {
+    getInstalledCommits: vi.fn(),
+  },
+  mockGetLocalSkills: vi.fn(),
+  mockInstallSkills: vi.fn(),
+  mockRecordInstalledCommits: vi.fn(),
+  mockResolveCommitSha: vi.fn(),
+  mockEmitOutput: vi.fn(),
+  mockHoldBackModifiedSkills: vi.fn(),
+}));
+
+vi.mock("@/service/config", () => ({
+  configStore: mockConfigStore,
+}));
+
+vi.mock("@/service/skillsService", () => ({
+  getLocalSkills: mockGetLocalSkills,
+  installSkills: mockInstallSkills,
+  isValidSource: () => true,
+  recordInstalledCommits: mockRecordInstalledCommits,
+}));
+
+vi.mock("@/service/skillRefs", () => ({
+  createSkillSourceOctokit: vi.fn(async () => ({})),
+  isCommitSha: (ref: string) => /^[0-9a-f]{40}$/.test(ref),
+  resolveCommitSha: mockResolveCommitSha,
+}));
+
+vi.mock("@/service/skillChecksums", () => ({
+  holdBackModifiedSkills: mockHoldBackModifiedSkills,
+}));
+
+vi.mock("@/utils/output", () => ({
+  emitOutput: mockEmitOutput,
+}));
+
+import { runUpgrade } from "@/commands/upgrade";
+
+const OLD = "1".repeat(40);
+const NEW = "2".repeat(40);
+const PINNED = "3".repeat(40);
+
+const SKILLS = [
+  { name: "alpha", source: "org/repo" },
+  { name: "beta", source: "org/repo" },
+  { name: "gamma", source: "org/repo", ref: PINNED },
+  { name: "delta", source: "other/repo" },
+];
+
+describe("upgrade command", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockHoldBackModifiedSkills.mockImplementation(async (candidates: unknown[]) => ({
+      heldBack: [],
+      allowed: candidates,
+    }));
+    mockGetLocalSkills.mockResolvedValue(SKILLS);
+    mockConfigStore.getInstalledCommits.mockResolvedValue({
+      "org/repo:alpha": OLD,
+      "org/repo:beta": NEW,
+    });
+    mockResolveCommitSha.mockImplementation(async (_octokit: unknown, source: string) => {
+      if (source === "other/repo") {
+        throw new Error("rate limited");
+      }
+      return NEW;
+    });
+  });
+
+  it("classifies skills by comparing upstream and installed commits", async () => {
+    const summary = await runUpgrade([], { dryRun: true });
+
+    expect(summary.skills.map((entry) => [entry.skill.name, entry.status])).toEqual([
+      ["alpha", "upgrade"],
+      ["beta", "up-to-date"],
+      ["gamma", "pinned"],
+      ["delta", "reinstall"],
+    ]);
+    expect(summary.upgraded).toBe(2);
+    expect(mockInstallSkills).not.toHaveBeenCalled();
+  });
+
+  it("reinstalls selected skills and records the new commit", async () => {
+    mockInstallSkills.mockResolvedValue({ succeeded: [SKILLS[0]], failed: [] });
+
+    const summary = await runUpgrade(["alpha", "beta"]);
+
+    expect(mockInstallSkills).toHaveBeenCalledWith([SKILLS[0]], { verbose: true });
+    expect(mockRecordInstalledCommits).toHaveBeenCalledWith([
+      { skill: SKILLS[0], commit: NEW },
+    ]);
+    expect(summary).toMatchObject({ ok: true, checked: 2, upgraded: 1, failed: [] });
+  });
+
+  it("reports install failures with the InstallFailure shape", async () => {
+    const failure = { skill: SKILLS[0], reason: "network down" };
+    mockInstallSkills.mockResolvedValue({ succeeded: [], failed: [failure] });
+
+    const summary = await runUpgrade(["alpha"], { json: true });
+
+    expect(summary.failed).toEqual([failure]);
+    expect(summary.ok).toBe(false);
+    expect(process.exitCode).toBe(1);
+    process.exitCode = undefined;
+  });
+
+  it("rejects names that are not installed", async () => {
+    await expect(runUpgrade(["missing"])).rejects.toMatchObject({
+      code: "SKILL_NOT_INSTALLED",
+    });
+  });
+});
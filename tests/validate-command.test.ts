@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PayloadValidationError } from "@/utils/errors";
+
+const { mockOpenRemoteStore, mockEmitOutput } = vi.hoisted(() => ({
+  mockOpenRemoteStore: vi.fn(),
+  mockEmitOutput: vi.fn(),
+}));
+
+vi.mock("@/service/remoteStore", () => ({
+  openRemoteStore: mockOpenRemoteStore,
+}));
+
+vi.mock("@/utils/output", () => ({
+  emitOutput: mockEmitOutput,
+}));
+
+import { runValidate } from "@/commands/validate";
+
+describe("validate command", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.exitCode = undefined;
+  });
+
+  it("reports the issues of an invalid remote payload", async () => {
+    const read = vi
+      .fn()
+      .mockRejectedValue(
+        new PayloadValidationError([{ path: "$.skills", message: "must be an array" }])
+      );
+    const locate = vi.fn(async () => ({
+      id: "gist-1",
+      payload: null,
+      revision: null,
+      corrupt: true,
+    }));
+    mockOpenRemoteStore.mockResolvedValue({ url: "gist", locate, read });
+
+    const summary = await runValidate({ json: true });
+
+    expect(locate).toHaveBeenCalledWith({ recreate: true, readOnly: true });
+    expect(read).toHaveBeenCalledWith("gist-1");
+    expect(summary).toEqual({
+      target: "gist",
+      valid: false,
+      skillCount: null,
+      issues: [{ path: "$.skills", message: "must be an array" }],
+    });
+    expect(process.exitCode).toBe(1);
+    process.exitCode = undefined;
+  });
+});